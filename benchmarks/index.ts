@@ -0,0 +1,75 @@
+import LegacyTree from 'auto-bst-legacy';
+import Tree from '../src/index';
+
+/**
+ * Compares Tree mutation and lookup throughput against the Tree of the 2.0.1
+ * release (the `auto-bst-legacy` dev dependency), which kept its nodes in an
+ * array maintained through binary search, splice and re-indexing. The legacy
+ * tree inserts and removes in quadratic time: sizes much beyond 2e4 take
+ * minutes to complete.
+ *
+ * Usage: npm run bench [-- <size> [<size>...]]
+ */
+
+const DEFAULT_SIZES = [ 1e3, 1e4 ];
+
+type Result = { name : string, ms : number };
+
+function makeValues( size : number ) {
+    let seed = size;
+    const random = () => ( seed = seed * 16807 % 2147483647 ) / 2147483647;
+    return Array.from({ length: size }, () => Math.floor( random() * size * 10 ) );
+}
+
+function measure( name : string, task : () => void ) : Result {
+    const start = process.hrtime.bigint();
+    task();
+    return { name, ms: Number( process.hrtime.bigint() - start ) / 1e6 };
+}
+
+interface BenchedTree {
+    size : number;
+    getNodeAt( index : number ) : unknown;
+    indexOf( value : number ) : number;
+    insert( value : number ) : unknown;
+    remove( value : number ) : unknown;
+    rotate() : unknown;
+}
+
+function run( tree : BenchedTree, values : Array<number> ) : Array<Result> {
+    const results = [
+        measure( 'insert', () => {
+            for( const value of values ) { tree.insert( value ) }
+        } ),
+        measure( 'indexOf', () => {
+            for( const value of values ) { tree.indexOf( value ) }
+        } ),
+        measure( 'getNodeAt', () => {
+            for( let i = tree.size; i--; ) { tree.getNodeAt( i ) }
+        } ),
+        measure( 'remove', () => {
+            for( const value of values ) { tree.remove( value ) }
+        } )
+    ];
+    tree.rotate(); // clears any pending auto-rotation timer
+    return results;
+}
+
+function main( sizes : Array<number> ) {
+    const rows = [];
+    for( const size of sizes ) {
+        const values = makeValues( size );
+        const baseline = run( new LegacyTree<number>(), values );
+        run( new Tree<number>(), values ).forEach(( result, i ) => rows.push({
+            size,
+            operation: result.name,
+            'legacy tree (ms)': +baseline[ i ].ms.toFixed( 2 ),
+            'tree (ms)': +result.ms.toFixed( 2 ),
+            speedup: +( baseline[ i ].ms / result.ms ).toFixed( 2 )
+        }) );
+    }
+    console.table( rows );
+}
+
+const sizes = process.argv.slice( 2 ).map( Number ).filter( n => n > 0 );
+main( sizes.length ? sizes : DEFAULT_SIZES );
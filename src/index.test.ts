@@ -1,10 +1,17 @@
 import Tree, {
+	AutoBSTMap,
+	ConcurrentModificationError,
 	CriteriaOptions,
 	Criterion,
+	Ordering,
+	PersistentNode,
+	PersistentTree,
 	TraversalDirection,
 	TraversalOrder,
+	TreeCursor,
 	TreeNode,
-	TreeOptions
+	TreeOptions,
+	TreeSnapshot
 } from '.';
 
 interface State<T = unknown> {
@@ -69,6 +76,60 @@ describe( 'Tree', () => {
 			tree = values = null;
 		});
 	});
+	describe( 'default order', () => {
+		test( 'orders dates by time and dedupes dates of the same time', () => {
+			const tree = new Tree([ new Date( 3e3 ), new Date( 1e3 ), new Date( 2e3 ), new Date( 1e3 ) ]);
+			expect( tree.values.map( date => date.getTime() ) ).toEqual([ 1e3, 2e3, 3e3 ]);
+			expect( tree.indexOf( new Date( 2e3 ) ) ).toBe( 1 );
+			tree.cleanup().rotate();
+		} );
+		test( 'orders bigints and booleans', () => {
+			const huge = BigInt( Number.MAX_SAFE_INTEGER ) * 4n;
+			const bigints = new Tree([ 30n, huge, -5n, 30n ]);
+			expect( bigints.values ).toEqual([ -5n, 30n, huge ]);
+			const booleans = new Tree([ true, false, true ]);
+			expect( booleans.values ).toEqual([ false, true ]);
+			bigints.cleanup().rotate();
+			booleans.cleanup().rotate();
+		} );
+		test( 'orders mixed numbers and bigints by size and matches those of the same size', () => {
+			const tree = new Tree<number | bigint>([ 2, 1n, 1, 3n, 0, -1n, 2.5 ]);
+			expect( tree.values ).toEqual([ -1n, 0, 1n, 2, 2.5, 3n ]);
+			expect( tree.indexOf( 1n ) ).toBe( 2 );
+			expect( tree.indexOf( 1 ) ).toBe( 2 );
+			expect( tree.indexOf( 3 ) ).toBe( 5 );
+			expect( tree.indexOf( 1.5 ) ).toBe( -1 );
+			const strictTree = new Tree<number | bigint>([ 3n, 1, 2n ], { strictOrder: true });
+			expect( strictTree.values ).toEqual([ 1, 2n, 3n ]);
+			expect( strictTree.insert( 2 ).size ).toBe( 3 );
+			tree.cleanup().rotate();
+			strictTree.cleanup().rotate();
+		} );
+		test( 'orders arrays lexicographically as tuple keys', () => {
+			const tree = new Tree([[ 2, 'b' ], [ 1, 'z' ], [ 2 ], [ 2, 'a' ], [ 2, 'a' ]]);
+			expect( tree.values ).toEqual([[ 1, 'z' ], [ 2 ], [ 2, 'a' ], [ 2, 'b' ]]);
+			expect( tree.indexOf([ 2, 'a' ]) ).toBe( 2 );
+			tree.cleanup().rotate();
+		} );
+		test( 'orders values of differing types by type', () => {
+			const object = {};
+			const date = new Date( 0 );
+			const tree = new Tree<unknown>([ object, [ 1 ], 'a', date, 2n, 1, true ]);
+			expect( tree.values ).toEqual([ true, 1, 2n, 'a', date, [ 1 ], object ]);
+			tree.cleanup().rotate();
+		} );
+		test( 'throws TypeError on values of differing or unorderable types in strict order', () => {
+			expect(() => new Tree<unknown>([ 'a', 1 ], { strictOrder: true }) ).toThrow( TypeError );
+			expect(() => new Tree([ [ 1, 'a' ], [ 1, 2 ] ], { strictOrder: true }) ).toThrow( TypeError );
+			expect(() => new Tree([ {}, {} ], { strictOrder: true }) ).toThrow(
+				'Cannot order Object and Object values under the default criteria.'
+			);
+			const tree = new Tree<unknown>([ 1 ], { strictOrder: true });
+			expect(() => tree.insert( null ) ).toThrow( 'Cannot order Null and Number values under the default criteria.' );
+			expect( tree.values ).toEqual([ 1 ]);
+			tree.cleanup().rotate();
+		} );
+	});
 	describe( 'auto balances when', () => {
 		test( 'criteris setter property initiates a change', () => {
 			let tree = new Tree<number>([ 3, 0.33, 1, 5, 0, 6, 3.76, 2, 5.33, 4 ]);
@@ -197,7 +258,236 @@ describe( 'Tree', () => {
 			} );
 		} );
 	} );
+	describe( 'multiset mode', () => {
+		type Value = { id: string, time: number };
+		const criteria : TreeOptions<Value> = {
+			isSameValue: ( v, n ) => v.time === n.value.time,
+			isValueBefore: ( v, n ) => v.time < n.value.time
+		};
+		const values : Array<Value> = [
+			{ id: 'a', time: 3 }, { id: 'b', time: 1 }, { id: 'c', time: 3 },
+			{ id: 'd', time: 2 }, { id: 'e', time: 3 }, { id: 'f', time: 1 }
+		];
+		const getIds = ( tree : Tree<Value> ) => tree.values.map(({ id }) => id ).join( '' );
+		test( 'keeps duplicate values in stable insertion order at initialization', () => {
+			const tree = new Tree( values, { ...criteria, allowDuplicates: true } );
+			expect( getIds( tree ) ).toBe( 'bfdace' );
+		} );
+		test( 'keeps duplicate values in stable insertion order through the `values` property', () => {
+			const tree = new Tree( undefined, { ...criteria, allowDuplicates: true } );
+			tree.values = [ ...values ].reverse();
+			expect( getIds( tree ) ).toBe( 'fbdeca' );
+		} );
+		test( 'inserts duplicate values after their existing matches', () => {
+			const tree = new Tree( values, { ...criteria, allowDuplicates: true } );
+			tree.insert({ id: 'g', time: 1 }).insert({ id: 'h', time: 3 }).insert({ id: 'i', time: 0 });
+			expect( getIds( tree ) ).toBe( 'ibfgdaceh' );
+		} );
+		test( 'moves a synchronized node after the nodes matching its new value', () => {
+			const tree = new Tree( values, { ...criteria, allowDuplicates: true } );
+			tree.getNodeAt( 0 ).value = { id: 'b', time: 3 };
+			expect( getIds( tree ) ).toBe( 'fdaceb' );
+		} );
+		test( 'drops duplicate values by default', () => {
+			const tree = new Tree( values, criteria );
+			expect( getIds( tree ) ).toBe( 'bda' );
+		} );
+	} );
+	describe( 'under random inserts and removals', () => {
+		let seed = 7;
+		const random = () => ( seed = seed * 16807 % 2147483647 ) / 2147483647;
+		const toInt = () => Math.floor( random() * 500 );
+		test( 'keeps node indexes consistent with sorted values', () => {
+			const tree = new Tree<number>();
+			const expected = new Set<number>();
+			for( let i = 0; i < 2000; i++ ) {
+				const value = toInt();
+				if( random() < 0.6 ) {
+					tree.insert( value );
+					expected.add( value );
+				} else {
+					tree.remove( value );
+					expected.delete( value );
+				}
+			}
+			const sorted = Array.from( expected ).sort(( a, b ) => a - b );
+			expect( tree.size ).toBe( sorted.length );
+			expect( tree.values ).toStrictEqual( sorted );
+			sorted.forEach(( value, i ) => {
+				const node = tree.getNodeAt( i );
+				expect( node.value ).toBe( value );
+				expect( node.index ).toBe( i );
+				expect( tree.indexOf( value ) ).toBe( i );
+			} );
+		} );
+		test( 'keeps node indexes consistent while values are synchronized', () => {
+			const tree = new Tree<number>( Array.from({ length: 200 }, ( _, i ) => i * 2 ) );
+			for( let i = 0; i < 300; i++ ) {
+				tree.getNodeAt( Math.floor( random() * tree.size ) ).value = toInt();
+			}
+			const values = tree.values;
+			expect( values ).toStrictEqual( [ ...values ].sort(( a, b ) => a - b ) );
+			values.forEach(( value, i ) => expect( tree.getNodeAt( i ).index ).toBe( i ) );
+		} );
+	} );
 	describe( 'static methods', () => {
+		describe( 'by(...)', () => {
+			test( 'returns an ordering usable as tree options', () => {
+				const ordering = Tree.by(( v : { id : number } ) => v.id, 'desc' );
+				expect( ordering ).toBeInstanceOf( Ordering );
+				const tree = new Tree([{ id: 1 }, { id: 3 }, { id: 2 }, { id: 3 }], ordering );
+				expect( tree.values ).toEqual([{ id: 3 }, { id: 2 }, { id: 1 }]);
+				tree.cleanup().rotate();
+			} );
+		} );
+		describe( 'concat(...)', () => {
+			test( 'moves the nodes of both trees into a new balanced tree', () => {
+				const tree = new Tree([ 1, 2, 3 ]);
+				const otherTree = new Tree([ 4, 5, 6, 7 ]);
+				const nodes = [ ...tree.traverse(), ...otherTree.traverse() as Array<TreeNode<number>> ];
+				const result = Tree.concat( tree, otherTree );
+				expect( result.values ).toStrictEqual([ 1, 2, 3, 4, 5, 6, 7 ]);
+				expect( result.getLevels() ).toHaveLength( 3 );
+				expect( tree.size ).toBe( 0 );
+				expect( otherTree.size ).toBe( 0 );
+				nodes.forEach(( node, i ) => {
+					expect( result.getNodeAt( i ) ).toBe( node );
+					expect( node.tree ).toBe( result );
+					expect( node.index ).toBe( i );
+				} );
+			} );
+			test( 'accepts empty trees', () => {
+				expect( Tree.concat( new Tree(), new Tree([ 1, 2 ]) ).values ).toStrictEqual([ 1, 2 ]);
+				expect( Tree.concat( new Tree([ 1, 2 ]), new Tree() ).values ).toStrictEqual([ 1, 2 ]);
+			} );
+			test( 'accepts matching boundary values when allowing duplicates', () => {
+				const tree = new Tree([ 1, 2 ], { allowDuplicates: true });
+				const result = Tree.concat( tree, new Tree([ 2, 3 ]) );
+				expect( result.values ).toStrictEqual([ 1, 2, 2, 3 ]);
+				expect( result.allowDuplicates ).toBe( true );
+			} );
+			test( 'publishes the `clear` event on the emptied trees', () => {
+				const tree = new Tree([ 1, 2 ]);
+				const onClear = jest.fn();
+				tree.on( 'clear', onClear );
+				const nodes = tree.traverse();
+				Tree.concat( tree, new Tree([ 3 ]) );
+				expect( onClear ).toHaveBeenCalledWith( nodes );
+			} );
+			test.each([
+				[ [ 1, 2, 3 ], [ 3, 4 ] ],
+				[ [ 1, 5 ], [ 3, 4 ] ]
+			])( 'throws Error on overlapping value ranges: %p and %p', ( values, otherValues ) => {
+				const tree = new Tree( values );
+				const otherTree = new Tree( otherValues );
+				const t = () => Tree.concat( tree, otherTree );
+				expect( t ).toThrow( Error );
+				expect( t ).toThrow( 'Cannot concatenate trees with overlapping value ranges.' );
+				expect( tree.values ).toStrictEqual( values );
+			} );
+			test( 'throws Error on concatenating a tree with itself', () => {
+				const tree = new Tree([ 1 ], { allowDuplicates: true });
+				const t = () => Tree.concat( tree, tree );
+				expect( t ).toThrow( Error );
+				expect( t ).toThrow( 'Cannot concatenate a tree with itself.' );
+				expect( tree.values ).toStrictEqual([ 1 ]);
+				tree.cleanup().rotate();
+			} );
+			test( 'throws TypeError on invalid tree', () => {
+				// @ts-ignore
+				const t = () => Tree.concat([ 1 ], new Tree([ 2 ]) );
+				expect( t ).toThrow( TypeError );
+				expect( t ).toThrow( 'Invalid `tree` argument supplied. Tree expected.' );
+			} );
+			test( 'throws Error on trees with differing criteria', () => {
+				const t = () => Tree.concat( new Tree([ 1 ]), new Tree([ 2 ], { isSameValue: ( a, { value } ) => a === value }) );
+				expect( t ).toThrow( Error );
+				expect( t ).toThrow( Tree.CRITERIA_MISMATCH_MESSAGE );
+			} );
+			test( 'throws Error on trees with differing keys', () => {
+				const t = () => Tree.concat( new Tree([ 1 ], { key: v => v }), new Tree([ 2 ]) );
+				expect( t ).toThrow( Tree.CRITERIA_MISMATCH_MESSAGE );
+			} );
+			test( 'throws Error on trees with differing comparators', () => {
+				const t = () => Tree.concat( new Tree([ 1 ], { comparator: ( a, b ) => a - b }), new Tree([ 2 ]) );
+				expect( t ).toThrow( Tree.CRITERIA_MISMATCH_MESSAGE );
+			} );
+		} );
+		describe( 'fromJSON(...)', () => {
+			const getPreOrderValues = ( tree : Tree<number> ) => ( tree.traverse( undefined, {
+				order: TraversalOrder.PRE
+			} ) as Array<TreeNode<number>> ).map(({ value }) => value );
+			test( 'revives a stringified tree', () => {
+				const tree = new Tree([ 3, 1, 3, 2 ], { allowDuplicates: true });
+				const revived = Tree.fromJSON<number>( JSON.stringify( tree ) );
+				expect( revived.values ).toStrictEqual([ 1, 2, 3, 3 ]);
+				expect( revived.allowDuplicates ).toBe( true );
+			} );
+			test( 'sorts and dedupes untrusted values under the supplied criteria', () => {
+				const revived = Tree.fromJSON<number>(
+					{ allowDuplicates: false, shape: [ 0, 1, 2, 3 ], values: [ 3, 1, 3, 2 ] },
+					{ isValueBefore: ( v, n ) => v > n.value }
+				);
+				expect( revived.values ).toStrictEqual([ 3, 2, 1 ]);
+			} );
+			test( 'skips all comparisons on trusted sorted values', () => {
+				const isValueBefore = jest.fn(( v, n ) => v < n.value );
+				const isSameValue = jest.fn(( v, n ) => v === n.value );
+				const revived = Tree.fromJSON<number>(
+					{ allowDuplicates: false, values: [ 1, 2, 3, 4, 5 ] },
+					{ isSameValue, isValueBefore, isSorted: true }
+				);
+				expect( revived.values ).toStrictEqual([ 1, 2, 3, 4, 5 ]);
+				expect( revived.getNodeAt( 3 ).index ).toBe( 3 );
+				expect( isValueBefore ).not.toHaveBeenCalled();
+				expect( isSameValue ).not.toHaveBeenCalled();
+			} );
+			test( 'restores a trusted balanced shape without rotating', () => {
+				const tree = new Tree([ 1, 2, 3, 4, 5, 6, 7, 8, 9, 10 ]);
+				const json = tree.toJSON({ shape: true });
+				setTimeoutSpy.mockClear();
+				const revived = Tree.fromJSON<number>( json, { isSorted: true });
+				expect( setTimeoutSpy ).not.toHaveBeenCalled();
+				expect( getPreOrderValues( revived ) ).toStrictEqual( getPreOrderValues( tree ) );
+				expect( revived.toJSON({ shape: true }) ).toStrictEqual( json );
+				revived.insert( 0 ).remove( 5 );
+				expect( revived.values ).toStrictEqual([ 0, 1, 2, 3, 4, 6, 7, 8, 9, 10 ]);
+				revived.rotate();
+			} );
+			test( 'schedules rotation for a trusted height-balanced shape which is not of minimal height', () => {
+				setTimeoutSpy.mockClear();
+				const revived = Tree.fromJSON<number>(
+					{ allowDuplicates: false, shape: [ 4, 2, 1, 0, 3, 5, 6 ], values: [ 0, 1, 2, 3, 4, 5, 6 ] },
+					{ isSorted: true }
+				);
+				expect( revived.toJSON({ shape: true }).shape ).toStrictEqual([ 4, 2, 1, 0, 3, 5, 6 ]);
+				expect( setTimeoutSpy ).toHaveBeenCalledTimes( 1 );
+				revived.rotate();
+				expect( revived.toJSON({ shape: true }).shape ).toStrictEqual([ 3, 1, 0, 2, 5, 4, 6 ]);
+			} );
+			test( 'applies the reviver', () => {
+				const revived = Tree.fromJSON<Date, string>(
+					{ allowDuplicates: false, values: [ '2024-01-02', '2023-05-06' ] },
+					{
+						isSameValue: ( v, n ) => v.getTime() === n.value.getTime(),
+						isValueBefore: ( v, n ) => v < n.value,
+						reviver: v => new Date( v )
+					}
+				);
+				expect( revived.values ).toStrictEqual([ new Date( '2023-05-06' ), new Date( '2024-01-02' ) ]);
+			} );
+			test.each([
+				[ 'non-object json', 4, undefined ],
+				[ 'json without values', {}, undefined ],
+				[ 'non-function reviver', { values: [] }, { reviver: 'x' } ],
+				[ 'shape of the wrong length', { values: [ 1, 2 ], shape: [ 0 ] }, { isSorted: true } ],
+				[ 'shape with out of range indexes', { values: [ 1, 2 ], shape: [ 1, 2 ] }, { isSorted: true } ],
+				[ 'shape with non-integer indexes', { values: [ 1, 2 ], shape: [ 1, 0.5 ] }, { isSorted: true } ],
+				[ 'shape of an unbalanced tree', { values: [ 1, 2, 3 ], shape: [ 0, 1, 2 ] }, { isSorted: true } ]
+			])( 'throws on %s', ( _, json, options ) => {
+				expect(() => Tree.fromJSON( json as any, options as any ) ).toThrow( TypeError );
+			} );
+		} );
 		describe( 'isValid(...)', () => {
 			test( 'acknowledges a valid tree instance', () => {
 				expect( Tree.isValid( new Tree() ) ).toBe( true );
@@ -220,20 +510,191 @@ describe( 'Tree', () => {
 		});
 		afterAll(() => { tree = null });
 		describe( 'getters', () => {
+			test( 'allowDuplicates', () => {
+				expect( tree.allowDuplicates ).toBe( false );
+				expect(( new Tree([], { allowDuplicates: true }) ).allowDuplicates ).toBe( true );
+			} );
+			test( 'canRedo', () => {
+				const tree = new Tree([ 1 ], { historyDepth: 5 });
+				expect( tree.insert( 2 ).canRedo ).toBe( false );
+				expect( tree.undo().canRedo ).toBe( true );
+				expect( tree.redo().canRedo ).toBe( false );
+				tree.cleanup().rotate();
+			} );
+			test( 'canUndo', () => {
+				const tree = new Tree([ 1 ], { historyDepth: 5 });
+				expect( tree.canUndo ).toBe( false );
+				expect( tree.insert( 2 ).canUndo ).toBe( true );
+				expect( tree.undo().canUndo ).toBe( false );
+				tree.cleanup().rotate();
+			} );
+			test( 'comparator', () => {
+				const comparator = ( a : number, b : number ) => b - a;
+				expect( tree.comparator ).toBeNull();
+				expect(( new Tree([], { comparator }) ).comparator ).toBe( comparator );
+			} );
+			test( 'key', () => {
+				const key = ({ id } : { id : number }) => id;
+				expect( tree.key ).toBeNull();
+				expect(( new Tree([], { key }) ).key ).toBe( key );
+			} );
+			test( 'historyDepth', () => {
+				expect( tree.historyDepth ).toBe( 0 );
+				expect(( new Tree([], { historyDepth: 5 }) ).historyDepth ).toBe( 5 );
+			} );
 			test( 'isSameValue', () => {
 				expect( tree.isSameValue ).toBe( isSameValue );
 			} );
 			test( 'isValueBefore', () => {
 				expect( tree.isValueBefore ).toBe( isValueBefore );
 			} );
+			test( 'rebalance', () => {
+				expect( tree.rebalance ).toStrictEqual({ delay: 3e4 });
+				expect(( new Tree([], { rebalance: 'manual' }) ).rebalance ).toBe( 'manual' );
+			} );
 			test( 'size', () => {
 				expect( tree.size ).toBe( testValues.length );
 			} );
+			test( 'strictOrder', () => {
+				expect( tree.strictOrder ).toBe( false );
+				expect(( new Tree([], { strictOrder: true }) ).strictOrder ).toBe( true );
+			} );
 			test( 'values', () => {
 				expect( tree.values ).toStrictEqual( testValues );
 			} );
 		} );
 		describe( 'setters', () => {
+			describe( 'allowDuplicates', () => {
+				test( 'keeps subsequent duplicate values when set', () => {
+					const tree = new Tree([ 3, 1, 3 ]);
+					tree.allowDuplicates = true;
+					tree.insert( 1 ).insert( 3 );
+					expect( tree.values ).toStrictEqual([ 1, 1, 3, 3 ]);
+				} );
+				test( 'dedupes the tree when unset', () => {
+					const tree = new Tree([ 3, 1, 3, 1, 2 ], { allowDuplicates: true });
+					expect( tree.values ).toStrictEqual([ 1, 1, 2, 3, 3 ]);
+					tree.allowDuplicates = false;
+					expect( tree.values ).toStrictEqual([ 1, 2, 3 ]);
+				} );
+				test( 'setting to the current mode is a no op', () => {
+					const tree = new Tree([ 3, 1, 3, 1, 2 ], { allowDuplicates: true });
+					const valuesSetSpy = jest.spyOn( tree, 'values', 'set' );
+					tree.allowDuplicates = true;
+					expect( valuesSetSpy ).not.toHaveBeenCalled();
+					valuesSetSpy.mockRestore();
+				} );
+			} );
+			describe( 'comparator', () => {
+				const descending = ( a : number, b : number ) => b - a;
+				test( 'orders values by the comparator result', () => {
+					const tree = new Tree([ 2, 5, 1, 5, 3 ], { comparator: descending });
+					expect( tree.values ).toEqual([ 5, 3, 2, 1 ]);
+					expect( tree.indexOf( 3 ) ).toBe( 1 );
+					expect( tree.insert( 4 ).values ).toEqual([ 5, 4, 3, 2, 1 ]);
+					tree.comparator = undefined;
+					expect( tree.comparator ).toBeNull();
+					expect( tree.values ).toEqual([ 1, 2, 3, 4, 5 ]);
+					tree.cleanup().rotate();
+				} );
+				test( 'takes precedence over criteria and key', () => {
+					const tree = new Tree([ 2, 1, 3 ], {
+						comparator: descending,
+						isValueBefore: ( value, node ) => value < node.value,
+						key: v => -v
+					});
+					expect( tree.values ).toEqual([ 3, 2, 1 ]);
+					tree.cleanup().rotate();
+				} );
+				test( 'makes one comparator call per search step', () => {
+					const values = Array.from({ length: 100 }, ( _, i ) => String( i ).padStart( 3, '0' ) );
+					const comparator = jest.fn(( a : string, b : string ) => a.localeCompare( b ) );
+					const tree = new Tree( values, { comparator });
+					const height = tree.getLevels().length;
+					for( const value of [ values[ 0 ], values[ 42 ], values[ 99 ], '999' ] ) {
+						comparator.mockClear();
+						tree.indexOf( value );
+						expect( comparator.mock.calls.length ).toBeLessThanOrEqual( height );
+						comparator.mockClear();
+						tree.insert( value );
+						expect( comparator.mock.calls.length ).toBeLessThanOrEqual( height );
+					}
+					tree.cleanup().rotate();
+				} );
+				test( 'treats a NaN result as a match throughout', () => {
+					const tree = new Tree([ 3, 1, 2 ], { comparator: () => NaN });
+					expect( tree.size ).toBe( 1 );
+					expect( tree.compare( 2, tree.getNodeAt( 0 ) ) ).toBe( 0 );
+					expect( tree.indexOf( 2 ) ).toBe( 0 );
+					tree.cleanup().rotate();
+				} );
+				test( 'throws TypeError on non-function comparator', () => {
+					// @ts-ignore
+					expect(() => new Tree([ 1 ], { comparator: 1 }) ).toThrow(
+						'Invalid `comparator` supplied. Function expected or leave it unset.'
+					);
+				} );
+			} );
+			describe( 'historyDepth', () => {
+				let tree : Tree<number>;
+				beforeEach(() => { tree = new Tree<number>( [], { historyDepth: 3 }) });
+				afterEach(() => {
+					tree.cleanup().rotate();
+					tree = null;
+				});
+				test( 'drops the oldest steps on shrinking', () => {
+					tree.insert( 1 ).insert( 2 ).insert( 3 );
+					tree.historyDepth = 1;
+					expect( tree.undo().values ).toEqual([ 1, 2 ]);
+					expect( tree.canUndo ).toBe( false );
+				} );
+				test.each([ 0, undefined ])( 'turns the history off and drops its steps when set to %p', depth => {
+					tree.insert( 1 );
+					tree.historyDepth = depth;
+					expect( tree.historyDepth ).toBe( 0 );
+					expect( tree.canUndo ).toBe( false );
+					expect( tree.insert( 2 ).canUndo ).toBe( false );
+				} );
+				test.each([ -1, 1.5, NaN, '3' ])( 'throws TypeError on invalid depth: %p', depth => {
+					// @ts-ignore
+					expect(() => { tree.historyDepth = depth } ).toThrow(
+						'Invalid `historyDepth` supplied. A non-negative integer or Infinity expected.'
+					);
+				} );
+			} );
+			describe( 'key', () => {
+				type Item = { id : number, name : string };
+				const items : Array<Item> = [{ id: 3, name: 'c' }, { id: 1, name: 'b' }, { id: 2, name: 'a' }];
+				test( 'orders values by the extracted key', () => {
+					const tree = new Tree( items, { key: ({ id }) => id });
+					expect( tree.values.map(({ id }) => id ) ).toEqual([ 1, 2, 3 ]);
+					expect( tree.indexOf({ id: 2, name: 'z' }) ).toBe( 1 );
+					tree.key = ({ name }) => name;
+					expect( tree.values.map(({ name }) => name ) ).toEqual([ 'a', 'b', 'c' ]);
+					tree.key = undefined;
+					expect( tree.key ).toBeNull();
+					tree.cleanup().rotate();
+				} );
+				test( 'dedupes values with matching keys', () => {
+					const tree = new Tree([ ...items, { id: 1, name: 'd' }], { key: ({ id }) => id });
+					expect( tree.size ).toBe( 3 );
+					tree.cleanup().rotate();
+				} );
+				test( 'yields to custom criteria', () => {
+					const tree = new Tree( items, {
+						isValueBefore: ( value, node ) => value.id > node.value.id,
+						key: ({ name }) => name
+					});
+					expect( tree.values.map(({ id }) => id ) ).toEqual([ 3, 2, 1 ]);
+					tree.cleanup().rotate();
+				} );
+				test( 'throws TypeError on non-function key', () => {
+					// @ts-ignore
+					expect(() => new Tree( items, { key: 'id' }) ).toThrow(
+						'Invalid `key` supplied. Function expected or leave it unset.'
+					);
+				} );
+			} );
 			describe( 'criteria', () => {
 				let testValues : Array<number>;
 				let tree : Tree<number>;
@@ -388,6 +849,138 @@ describe( 'Tree', () => {
 					} );
 				} );
 			} );
+			describe( 'rebalance', () => {
+				let treeRotateSpy : jest.SpyInstance;
+				const createTree = ( rebalance : TreeOptions<number>["rebalance"] ) => {
+					const tree = new Tree([ 1, 2, 3, 4, 5 ], { rebalance });
+					tree.rotate();
+					setTimeoutSpy.mockClear();
+					treeRotateSpy = jest.spyOn( tree, 'rotate' );
+					return tree;
+				};
+				afterEach(() => {
+					treeRotateSpy?.mockRestore();
+					treeRotateSpy = null;
+				});
+				test( '"immediate" rotates the tree at every write', () => {
+					const tree = createTree( 'immediate' );
+					tree.insert( 6 );
+					expect( treeRotateSpy ).toHaveBeenCalledTimes( 1 );
+					tree.remove( 1 );
+					expect( treeRotateSpy ).toHaveBeenCalledTimes( 2 );
+					expect( setTimeoutSpy ).not.toHaveBeenCalled();
+				} );
+				test( '"manual" rotates the tree only on demand', () => {
+					const tree = createTree( 'manual' );
+					tree.insert( 6 ).insert( 7 );
+					expect( tree.getNodeAt( 0 ).root ).not.toBeNull();
+					jest.runOnlyPendingTimers();
+					expect( treeRotateSpy ).not.toHaveBeenCalled();
+					expect( setTimeoutSpy ).not.toHaveBeenCalled();
+					expect( tree.values ).toStrictEqual([ 1, 2, 3, 4, 5, 6, 7 ]);
+					tree.rotate();
+					expect( treeRotateSpy ).toHaveBeenCalledTimes( 1 );
+				} );
+				test( '"microtask" rotates the tree once at the end of the current job', () => {
+					const tree = createTree( 'microtask' );
+					tree.insert( 6 ).insert( 7 ).remove( 1 );
+					expect( treeRotateSpy ).not.toHaveBeenCalled();
+					jest.runAllTicks();
+					expect( treeRotateSpy ).toHaveBeenCalledTimes( 1 );
+					expect( setTimeoutSpy ).not.toHaveBeenCalled();
+				} );
+				test( '"microtask" rotation is not forced by node link reads', () => {
+					const tree = createTree( 'microtask' );
+					tree.insert( 6 );
+					tree.getNodeAt( 0 ).root;
+					tree.getLevels();
+					expect( treeRotateSpy ).not.toHaveBeenCalled();
+					jest.runAllTicks();
+					expect( treeRotateSpy ).toHaveBeenCalledTimes( 1 );
+				} );
+				test( '{ delay } rotates the tree on an unref\'d timer', () => {
+					const tree = createTree({ delay: 50 });
+					tree.insert( 6 ).insert( 7 );
+					expect( setTimeoutSpy ).toHaveBeenCalledTimes( 1 );
+					expect( setTimeoutSpy ).toHaveBeenCalledWith( expect.any( Function ), 50 );
+					expect(( setTimeoutSpy.mock.results[ 0 ].value as NodeJS.Timeout ).hasRef() ).toBe( false );
+					jest.advanceTimersByTime( 49 );
+					expect( treeRotateSpy ).not.toHaveBeenCalled();
+					jest.advanceTimersByTime( 1 );
+					expect( treeRotateSpy ).toHaveBeenCalledTimes( 1 );
+				} );
+				test( '{ mutations } rotates the tree at every nth write', () => {
+					const tree = createTree({ mutations: 3 });
+					tree.insert( 6 ).insert( 7 );
+					expect( treeRotateSpy ).not.toHaveBeenCalled();
+					tree.insert( 8 );
+					expect( treeRotateSpy ).toHaveBeenCalledTimes( 1 );
+					tree.insert( 9 ).insert( 10 ).insert( 11 );
+					expect( treeRotateSpy ).toHaveBeenCalledTimes( 2 );
+					expect( setTimeoutSpy ).not.toHaveBeenCalled();
+				} );
+				test( '{ heightFactor } rotates the tree once it grows past the height limit', () => {
+					let tree = createTree({ heightFactor: 2 });
+					tree.insert( 6 ).insert( 7 ).insert( 8 );
+					expect( treeRotateSpy ).not.toHaveBeenCalled();
+					treeRotateSpy.mockRestore();
+					tree = createTree({ heightFactor: 1 });
+					tree.insert( 6 );
+					expect( treeRotateSpy ).toHaveBeenCalledTimes( 1 );
+					expect( setTimeoutSpy ).not.toHaveBeenCalled();
+				} );
+				test( 'reschedules a pending rotation under the new policy', () => {
+					const tree = createTree( undefined );
+					tree.insert( 6 );
+					expect( setTimeoutSpy ).toHaveBeenCalledTimes( 1 );
+					clearTimeoutSpy.mockClear();
+					tree.rebalance = 'manual';
+					expect( clearTimeoutSpy ).toHaveBeenCalledTimes( 1 );
+					jest.runOnlyPendingTimers();
+					expect( treeRotateSpy ).not.toHaveBeenCalled();
+					tree.rebalance = 'immediate';
+					expect( treeRotateSpy ).toHaveBeenCalledTimes( 1 );
+				} );
+				test( 'resets to default when set to undefined', () => {
+					const tree = new Tree([], { rebalance: 'manual' });
+					tree.rebalance = undefined;
+					expect( tree.rebalance ).toStrictEqual({ delay: 3e4 });
+				} );
+				test( 'throws on invalid policy', () => {
+					const tree = new Tree<number>();
+					for( const rebalance of [
+						'never', {}, { delay: -1 }, { delay: Infinity },
+						{ heightFactor: 0.5 }, { mutations: 1.5 }, { mutations: 0 },
+						{ delay: 1, mutations: 2 }
+					] ) {
+						expect(() => { tree.rebalance = rebalance as any } ).toThrow( TypeError );
+					}
+					expect(() => new Tree([], { rebalance: 'never' as any }) ).toThrow( TypeError );
+				} );
+			} );
+			describe( 'strictOrder', () => {
+				test( 'checks the current values when turned on', () => {
+					const tree = new Tree<unknown>([ 3, 'a', 1 ]);
+					expect(() => { tree.strictOrder = true } ).toThrow(
+						'Cannot order String and Number values under the default criteria.'
+					);
+					expect( tree.strictOrder ).toBe( false );
+					tree.remove( 'a' ).strictOrder = true;
+					expect( tree.strictOrder ).toBe( true );
+					expect(() => tree.insert( 'b' ) ).toThrow( TypeError );
+					tree.strictOrder = false;
+					expect( tree.insert( 'b' ).values ).toEqual([ 1, 3, 'b' ]);
+					tree.cleanup().rotate();
+				} );
+				test( 'applies to default criteria only', () => {
+					const tree = new Tree<unknown>([ 'a', 1 ], {
+						isValueBefore: ( value, node ) => String( value ) < String( node.value ),
+						strictOrder: true
+					});
+					expect( tree.values ).toEqual([ 1, 'a' ]);
+					tree.cleanup().rotate();
+				} );
+			} );
 			describe( 'values', () => {
 				describe( 'accept any iterable type', () => {
 					class TestIterable {
@@ -466,10 +1059,47 @@ describe( 'Tree', () => {
 						1, 3, 6, 9, 10, 11, 30, 33, 60, 66, 90, 99
 					]);
 				} );
+				test( 'drops trailing values when set to a leading subset of tree values', () => {
+					let tree = new Tree( testValues );
+					tree.values = testValues.slice( 0, -2 );
+					expect( tree.values ).toStrictEqual( testValues.slice( 0, -2 ) );
+				} );
 			} );
 		} );
 	} );
 	describe( 'instance methods', () => {
+		describe( '[Symbol.iterator](...)', () => {
+			test( 'iterates over the values in in-order sequence', () => {
+				const tree = new Tree([ 5, 1, 3 ]);
+				const values = [];
+				for( const value of tree ) { values.push( value ) }
+				expect( values ).toStrictEqual([ 1, 3, 5 ]);
+				expect([ ...tree ]).toStrictEqual([ 1, 3, 5 ]);
+				expect( Array.from( new Tree() ) ).toStrictEqual([]);
+			} );
+		} );
+		describe( 'at(...)', () => {
+			const tree = new Tree([ 5, 1, 3 ]);
+			test.each([
+				[ 0, 1 ], [ 2, 5 ], [ -1, 5 ], [ -3, 1 ], [ 3, undefined ]
+			])( 'returns value at index %i: %p', ( index, value ) => {
+				expect( tree.at( index ) ).toBe( value );
+			} );
+		} );
+		describe( 'ceiling(...)', () => {
+			const tree = new Tree([ 0, 3, 6, 9 ]);
+			test( 'returns node holding the value when found', () => {
+				expect( tree.ceiling( 6 ) ).toBe( tree.getNodeAt( 2 ) );
+			} );
+			test( 'returns node holding the smallest value sorted after an absent value', () => {
+				expect( tree.ceiling( 4 ) ).toBe( tree.getNodeAt( 2 ) );
+				expect( tree.ceiling( -4 ) ).toBe( tree.getNodeAt( 0 ) );
+			} );
+			test( 'returns undefined when all values are sorted before the value', () => {
+				expect( tree.ceiling( 10 ) ).toBeUndefined();
+				expect(( new Tree<number>() ).ceiling( 10 )).toBeUndefined();
+			} );
+		} );
 		describe( 'cleanup(...)', () => {
 			let nodesNotFreedBeforeDetachment : boolean;
 			let nodesFreedAfterDetachment : boolean;
@@ -510,6 +1140,16 @@ describe( 'Tree', () => {
 				expect( tree.clear() ).toBe( tree );
 			} );
 		} );
+		describe( 'clearHistory(...)', () => {
+			test( 'drops all steps', () => {
+				const tree = new Tree([ 1 ], { historyDepth: 5 });
+				tree.insert( 2 ).insert( 3 ).undo();
+				expect( tree.clearHistory() ).toBe( tree );
+				expect( tree.canUndo ).toBe( false );
+				expect( tree.canRedo ).toBe( false );
+				tree.cleanup().rotate();
+			} );
+		} );
 		describe( 'compare(...)', () => {
 			let node : TreeNode<number>;
 			let testValue : number;
@@ -552,10 +1192,222 @@ describe( 'Tree', () => {
 				tree = null;
 			} );
 		} );
+		describe( 'count(...)', () => {
+			test( 'returns number of nodes matching value', () => {
+				const tree = new Tree([ 1, 3, 3, 5, 3, 1 ], { allowDuplicates: true });
+				expect( tree.count( 3 ) ).toBe( 3 );
+				expect( tree.count( 1 ) ).toBe( 2 );
+				expect( tree.count( 5 ) ).toBe( 1 );
+				expect( tree.count( 4 ) ).toBe( 0 );
+			} );
+			test( 'returns either 0 or 1 when not allowing duplicates', () => {
+				const tree = new Tree([ 1, 3, 3, 5, 3, 1 ]);
+				expect( tree.count( 3 ) ).toBe( 1 );
+				expect( tree.count( 4 ) ).toBe( 0 );
+			} );
+		} );
+		describe( 'cursor(...)', () => {
+			const tree = new Tree([ 1, 3, 5 ]);
+			test( 'returns a cursor positioned at the first node by default', () => {
+				const cursor = tree.cursor();
+				expect( cursor ).toBeInstanceOf( TreeCursor );
+				expect( cursor.tree ).toBe( tree );
+				expect( cursor.current ).toBe( tree.getNodeAt( 0 ) );
+			} );
+			test( 'positions the cursor at the start node or value', () => {
+				expect( tree.cursor( tree.getNodeAt( 2 ) ).current.value ).toBe( 5 );
+				expect( tree.cursor( 2 ).current.value ).toBe( 3 );
+				expect( tree.cursor( 6 ).current ).toBeNull();
+			} );
+			test( 'throws ReferenceError on a start node from another tree', () => {
+				const t = () => tree.cursor( new Tree([ 1 ]).getNodeAt( 0 ) );
+				expect( t ).toThrow( ReferenceError );
+				expect( t ).toThrow( Tree.TREE_MISMATCH_MESSAGE );
+			} );
+		} );
+		describe( 'difference(...)', () => {
+			test( 'returns a new tree holding values not found in the other tree', () => {
+				const tree = new Tree([ 1, 2, 3, 4, 5 ]);
+				const result = tree.difference( new Tree([ 4, 5, 6, 7 ]) );
+				expect( result ).not.toBe( tree );
+				expect( result.values ).toStrictEqual([ 1, 2, 3 ]);
+				expect( tree.values ).toStrictEqual([ 1, 2, 3, 4, 5 ]);
+			} );
+			test( 'subtracts duplicate value counts', () => {
+				const tree = new Tree([ 1, 2, 2, 2, 3 ], { allowDuplicates: true });
+				const result = tree.difference( new Tree([ 2, 2, 4 ], { allowDuplicates: true }) );
+				expect( result.values ).toStrictEqual([ 1, 2, 3 ]);
+				expect( result.allowDuplicates ).toBe( true );
+			} );
+			test( 'frees the removed nodes when applied in place', () => {
+				const tree = new Tree([ 1, 2, 3, 4, 5 ]);
+				const keptNode = tree.getNodeAt( 0 );
+				const removedNode = tree.getNodeAt( 4 );
+				expect( tree.difference( new Tree([ 4, 5, 6 ]), { inPlace: true }) ).toBe( tree );
+				expect( tree.values ).toStrictEqual([ 1, 2, 3 ]);
+				expect( tree.getNodeAt( 0 ) ).toBe( keptNode );
+				expect( removedNode.isFree ).toBe( true );
+				tree.cleanup().rotate();
+			} );
+			test( 'throws TypeError on invalid other tree', () => {
+				// @ts-ignore
+				const t = () => new Tree([ 1 ]).difference([ 1 ]);
+				expect( t ).toThrow( TypeError );
+				expect( t ).toThrow( 'Invalid `other` argument supplied. Tree expected.' );
+			} );
+			test( 'throws Error on trees with differing criteria', () => {
+				const isValueBefore = ( value : number, node : TreeNode<number> ) => value > node.value;
+				const t = () => new Tree([ 1 ]).difference( new Tree([ 1 ], { isValueBefore }) );
+				expect( t ).toThrow( Error );
+				expect( t ).toThrow( Tree.CRITERIA_MISMATCH_MESSAGE );
+			} );
+		} );
+		describe( 'entries(...)', () => {
+			test( 'generates in-order index and value pairs', () => {
+				expect([ ...new Tree([ 'c', 'a', 'b' ]).entries() ]).toStrictEqual([ [ 0, 'a' ], [ 1, 'b' ], [ 2, 'c' ] ]);
+			} );
+		} );
+		describe( 'every(...)', () => {
+			const tree = new Tree([ 1, 2, 3, 4, 5 ]);
+			test( 'checks if all values pass the predicate', () => {
+				expect( tree.every( value => value > 0 ) ).toBe( true );
+				expect( tree.every( value => value < 5 ) ).toBe( false );
+				expect( new Tree<number>().every( value => value > 0 ) ).toBe( true );
+			} );
+			test( 'stops at the first failing node', () => {
+				const predicate = jest.fn(( value : number ) => value < 2 );
+				expect( tree.every( predicate ) ).toBe( false );
+				expect( predicate ).toHaveBeenCalledTimes( 2 );
+				expect( predicate ).toHaveBeenCalledWith( 1, tree.getNodeAt( 0 ), tree );
+			} );
+			test( 'honors the traversal options', () => {
+				expect( tree.every( value => value > 2, { start: 2 }) ).toBe( true );
+			} );
+			test( 'throws TypeError on non-function predicate', () => {
+				// @ts-ignore
+				const t = () => tree.every( 'testing' );
+				expect( t ).toThrow( TypeError );
+				expect( t ).toThrow( 'Invalid callback argument supplied to `every` method. Function expected.' );
+			} );
+		} );
+		describe( 'filter(...)', () => {
+			const tree = new Tree([ 1, 2, 3, 4, 5 ]);
+			test( 'lazily generates values passing the predicate', () => {
+				const predicate = jest.fn(( value : number ) => value % 2 === 1 );
+				const generator = tree.filter( predicate );
+				expect( predicate ).not.toHaveBeenCalled();
+				expect( generator.next().value ).toBe( 1 );
+				expect( generator.next().value ).toBe( 3 );
+				expect( predicate ).toHaveBeenCalledTimes( 3 );
+				expect([ ...generator ]).toStrictEqual([ 5 ]);
+			} );
+			test( 'honors the traversal options', () => {
+				expect([ ...tree.filter( value => value % 2 === 1, {
+					direction: TraversalDirection.LEFT
+				}) ]).toStrictEqual([ 5, 3, 1 ]);
+			} );
+			test( 'throws TypeError on non-function predicate at call time', () => {
+				// @ts-ignore
+				const t = () => tree.filter( null );
+				expect( t ).toThrow( TypeError );
+				expect( t ).toThrow( 'Invalid callback argument supplied to `filter` method. Function expected.' );
+			} );
+		} );
+		describe( 'find(...)', () => {
+			const tree = new Tree([ 1, 2, 3, 4, 5 ]);
+			test( 'returns value of the first node passing the predicate', () => {
+				const predicate = jest.fn(( value : number ) => value > 2 );
+				expect( tree.find( predicate ) ).toBe( 3 );
+				expect( predicate ).toHaveBeenCalledTimes( 3 );
+			} );
+			test( 'returns undefined if none found', () => {
+				expect( tree.find( value => value > 5 ) ).toBeUndefined();
+			} );
+			test( 'honors the traversal options', () => {
+				expect( tree.find( value => value > 2, { direction: TraversalDirection.LEFT }) ).toBe( 5 );
+			} );
+			test( 'throws TypeError on non-function predicate', () => {
+				// @ts-ignore
+				const t = () => tree.find();
+				expect( t ).toThrow( TypeError );
+				expect( t ).toThrow( 'Invalid callback argument supplied to `find` method. Function expected.' );
+			} );
+		} );
+		describe( 'floor(...)', () => {
+			const tree = new Tree([ 0, 3, 6, 9 ]);
+			test( 'returns node holding the value when found', () => {
+				expect( tree.floor( 6 ) ).toBe( tree.getNodeAt( 2 ) );
+			} );
+			test( 'returns node holding the largest value sorted before an absent value', () => {
+				expect( tree.floor( 4 ) ).toBe( tree.getNodeAt( 1 ) );
+				expect( tree.floor( 40 ) ).toBe( tree.getNodeAt( -1 ) );
+			} );
+			test( 'returns undefined when all values are sorted after the value', () => {
+				expect( tree.floor( -1 ) ).toBeUndefined();
+				expect(( new Tree<number>() ).floor( 10 )).toBeUndefined();
+			} );
+			test( 'uses the tree criteria', () => {
+				const tree = new Tree([ 0, 3, 6, 9 ], {
+					isValueBefore: ( v, n ) => v > n.value
+				} );
+				expect( tree.values ).toStrictEqual([ 9, 6, 3, 0 ]);
+				expect( tree.floor( 4 ).value ).toBe( 6 );
+			} );
+		} );
+		describe( '*genRange(...)', () => {
+			const tree = new Tree([ 0, 3, 6, 9, 12, 15 ]);
+			const getValues = ( options? ) => {
+				const values = [];
+				for( const { value } of tree.genRange( options ) ) { values.push( value ) }
+				return values;
+			};
+			test( 'generates all nodes in-order by default', () => {
+				expect( getValues() ).toStrictEqual( tree.values );
+				expect( getValues( null ) ).toStrictEqual( tree.values );
+			} );
+			test( 'includes nodes matching both range bounds by default', () => {
+				expect( getValues({ from: 3, to: 12 }) ).toStrictEqual([ 3, 6, 9, 12 ]);
+			} );
+			test( 'excludes nodes matching exclusive range bounds', () => {
+				expect( getValues({ from: 3, fromInclusive: false, to: 12 }) ).toStrictEqual([ 6, 9, 12 ]);
+				expect( getValues({ from: 3, to: 12, toInclusive: false }) ).toStrictEqual([ 3, 6, 9 ]);
+				expect( getValues({
+					from: 3, fromInclusive: false, to: 12, toInclusive: false
+				}) ).toStrictEqual([ 6, 9 ]);
+			} );
+			test( 'accepts range bounds not found in the tree', () => {
+				expect( getValues({ from: 2, to: 10 }) ).toStrictEqual([ 3, 6, 9 ]);
+				expect( getValues({ from: -20, to: 40 }) ).toStrictEqual( tree.values );
+			} );
+			test( 'accepts open-ended ranges', () => {
+				expect( getValues({ from: 7 }) ).toStrictEqual([ 9, 12, 15 ]);
+				expect( getValues({ to: 7 }) ).toStrictEqual([ 0, 3, 6 ]);
+			} );
+			test( 'generates nodes from right to left', () => {
+				expect( getValues({
+					direction: TraversalDirection.LEFT, from: 3, to: 12, toInclusive: false
+				}) ).toStrictEqual([ 9, 6, 3 ]);
+				expect( getValues({ direction: TraversalDirection.LEFT }) ).toStrictEqual([ ...tree.values ].reverse() );
+			} );
+			test( 'generates nothing for empty ranges', () => {
+				expect( getValues({ from: 12, to: 3 }) ).toHaveLength( 0 );
+				expect( getValues({ from: 4, to: 5 }) ).toHaveLength( 0 );
+				expect( getValues({ from: 3, fromInclusive: false, to: 3 }) ).toHaveLength( 0 );
+				expect( getValues({ from: 20 }) ).toHaveLength( 0 );
+			} );
+			test( 'throws Error on invalid traversal direction', () => {
+				// @ts-ignore
+				const t = () => { tree.genRange({ direction: 'testing' }).next() };
+				expect( t ).toThrow( Error );
+				expect( t ).toThrow( 'Invalid `direction` option supplied to `genRange` method. A member of `TraversalDirection` expected or leave it unset.' );
+			} );
+		} );
 		describe( '*genTraversal(...)', () => {
 			const testValues = [ 1, 2, 3, 4, 5, 6, 7 ];
+			const expectedLtrLevelOrderResult = [ 4, 2, 6, 1, 3, 5, 7 ];
 			const expectedLtrPostOrderResult = [ 1, 3, 2, 5, 7, 6, 4 ];
 			const expectedLtrPreOrderResult = [ 4, 2, 1, 3, 6, 5, 7 ];
+			const expectedRtlLevelOrderResult = [ 4, 6, 2, 7, 5, 3, 1 ];
 			const expectedRtlPostOrderResult = [ 7, 5, 6, 3, 1, 2, 4 ];
 			const expectedRtlPreOrderResult = [ 4, 6, 7, 5, 2, 3, 1 ];
 			let tree = new Tree( testValues );
@@ -586,6 +1438,7 @@ describe( 'Tree', () => {
 			describe( 'acceptable traversal order', () => {
 				test.each([
 					[ TraversalOrder.IN, testValues ],
+					[ TraversalOrder.LEVEL, expectedLtrLevelOrderResult ],
 					[ TraversalOrder.POST, expectedLtrPostOrderResult ],
 					[ TraversalOrder.PRE, expectedLtrPreOrderResult ]
 				])(
@@ -604,6 +1457,8 @@ describe( 'Tree', () => {
 				test.each([
 					[ TraversalOrder.IN, TraversalDirection.RIGHT, testValues ],
 					[ TraversalOrder.IN, TraversalDirection.LEFT, [ ...testValues ].reverse() ],
+					[ TraversalOrder.LEVEL, TraversalDirection.RIGHT, expectedLtrLevelOrderResult ],
+					[ TraversalOrder.LEVEL, TraversalDirection.LEFT, expectedRtlLevelOrderResult ],
 					[ TraversalOrder.POST, TraversalDirection.RIGHT, expectedLtrPostOrderResult ],
 					[ TraversalOrder.POST, TraversalDirection.LEFT, expectedRtlPostOrderResult ],
 					[ TraversalOrder.PRE, TraversalDirection.RIGHT, expectedLtrPreOrderResult ],
@@ -624,6 +1479,8 @@ describe( 'Tree', () => {
 				const testArtifacts = [
 					[ TraversalOrder.IN, TraversalDirection.RIGHT, [ 3, 4, 5 ] ],
 					[ TraversalOrder.IN, TraversalDirection.LEFT, [ 3, 2, 1 ] ],
+					[ TraversalOrder.LEVEL, TraversalDirection.RIGHT, [ 3, 5, 7 ] ],
+					[ TraversalOrder.LEVEL, TraversalDirection.LEFT, [ 3, 1 ] ],
 					[ TraversalOrder.POST, TraversalDirection.RIGHT, [ 3, 2, 5 ] ],
 					[ TraversalOrder.POST, TraversalDirection.LEFT, [ 3, 1, 2 ] ],
 					[ TraversalOrder.PRE, TraversalDirection.RIGHT, [ 3, 6, 5] ],
@@ -662,6 +1519,8 @@ describe( 'Tree', () => {
 				const testArtifacts = [
 					[ TraversalOrder.IN, TraversalDirection.RIGHT, testValues ],
 					[ TraversalOrder.IN, TraversalDirection.LEFT, [ ...testValues ].reverse() ],
+					[ TraversalOrder.LEVEL, TraversalDirection.RIGHT, expectedLtrLevelOrderResult ],
+					[ TraversalOrder.LEVEL, TraversalDirection.LEFT, expectedRtlLevelOrderResult ],
 					[ TraversalOrder.POST, TraversalDirection.RIGHT, expectedLtrPostOrderResult ],
 					[ TraversalOrder.POST, TraversalDirection.LEFT, expectedRtlPostOrderResult ],
 					[ TraversalOrder.PRE, TraversalDirection.RIGHT, expectedLtrPreOrderResult ],
@@ -716,6 +1575,82 @@ describe( 'Tree', () => {
 					)
 				} );
 			} );
+			describe( 'structural modification during traversal', () => {
+				let tree : Tree<number>;
+				beforeEach(() => { tree = new Tree( testValues ) });
+				afterEach(() => { tree.cleanup().rotate() });
+				test.each([
+					[ 'insert', () => { tree.insert( 8 ) } ],
+					[ 'remove', () => { tree.remove( 7 ) } ],
+					[ 'node detach', () => { tree.getNodeAt( 6 ).detach() } ],
+					[ 'node relocation', () => { tree.getNodeAt( 6 ).value = 0 } ],
+					[ 'values reset', () => { tree.values = [ 9, 10 ] } ],
+					[ 'clear', () => { tree.clear() } ]
+				])( 'throws ConcurrentModificationError on resuming past %s', ( _, modify ) => {
+					const generator = tree.genTraversal();
+					generator.next();
+					modify();
+					const t = () => generator.next();
+					expect( t ).toThrow( ConcurrentModificationError );
+					expect( t ).not.toThrow();
+				} );
+				test( 'reports the error by name', () => {
+					const generator = tree.genTraversal({ order: TraversalOrder.LEVEL });
+					generator.next();
+					tree.insert( 8 );
+					try {
+						generator.next();
+					} catch( e ) {
+						expect( e ).toBeInstanceOf( Error );
+						expect( e.name ).toBe( 'ConcurrentModificationError' );
+						expect( e.message ).toBe( 'Cannot resume a traversal of a tree structurally modified since the traversal began.' );
+					}
+					expect.assertions( 3 );
+				} );
+				test( 'ignores value updates keeping node positions', () => {
+					const values = [];
+					for( const node of tree.genTraversal() ) {
+						node.value === 4 && ( node.value = 4.5 );
+						values.push( node.value );
+					}
+					expect( values ).toStrictEqual([ 1, 2, 3, 4.5, 5, 6, 7 ]);
+				} );
+				test.each([
+					[ 'level', TraversalOrder.LEVEL ],
+					[ 'post', TraversalOrder.POST ],
+					[ 'pre', TraversalOrder.PRE ]
+				])( 'throws ConcurrentModificationError on resuming a %s-order traversal past a rotation', ( _, order ) => {
+					tree.rebalance = 'manual';
+					tree.insert( 8 );
+					const generator = tree.genTraversal({ order });
+					generator.next();
+					tree.rotate();
+					expect(() => generator.next() ).toThrow( ConcurrentModificationError );
+				} );
+				test( 'ignores rotations during in-order traversals', () => {
+					tree.rebalance = 'manual';
+					tree.insert( 8 );
+					const values = [];
+					for( const { value } of tree.genTraversal() ) {
+						tree.rotate();
+						values.push( value );
+					}
+					expect( values ).toStrictEqual([ ...testValues, 8 ]);
+				} );
+				test( 'ignores modifications once the traversal is abandoned', () => {
+					expect(() => {
+						for( const { value } of tree.genTraversal() ) {
+							tree.insert( value + 10 );
+							break;
+						}
+					}).not.toThrow();
+				} );
+				test( 'ignores modifications made before the traversal began', () => {
+					const generator = tree.genTraversal();
+					tree.insert( 8 );
+					expect([ ...generator ]).toHaveLength( 8 );
+				} );
+			} );
 			test( 'throws Error on invalid traversal order', () => {
 				// @ts-ignore
 				const t = () => { tree.genTraversal({ order: 'testing' }).next() };
@@ -764,10 +1699,36 @@ describe( 'Tree', () => {
 					} );
 				};
 				describe( 'in-order', () => { runTestFor({ order: TraversalOrder.IN }) } );
+				describe( 'level-order', () => { runTestFor({ order: TraversalOrder.LEVEL }) } );
 				describe( 'post-order', () => { runTestFor({ order: TraversalOrder.POST }) } );
 				describe( 'pre-order', () => { runTestFor({ order: TraversalOrder.PRE }) } );
 			} );
 		} );
+		describe( 'getByKey(...)', () => {
+			const tree = new Tree([{ id: 7 }, { id: 3 }], { key: ({ id }) => id });
+			test( 'returns the value holding the key', () => {
+				expect( tree.getByKey( 7 ) ).toEqual({ id: 7 });
+				expect( tree.getByKey( 5 ) ).toBeUndefined();
+			} );
+		} );
+		describe( 'getLevels(...)', () => {
+			test( 'groups nodes by depth from the root in left-to-right sequence', () => {
+				const tree = new Tree([ 1, 2, 3, 4, 5, 6, 7 ]);
+				expect( tree.getLevels().map( level => level.map(({ value }) => value ) ) )
+					.toStrictEqual([ [ 4 ], [ 2, 6 ], [ 1, 3, 5, 7 ] ]);
+			} );
+			test( 'returns an empty list for an empty tree', () => {
+				expect( new Tree().getLevels() ).toStrictEqual([]);
+			} );
+			test( 'groups the height-balanced links of a tree pending rotation', () => {
+				const tree = new Tree([ 1, 2, 3 ]);
+				tree.insert( 4 );
+				tree.insert( 5 );
+				expect( tree.getLevels().map( level => level.map(({ value }) => value ) ) )
+					.toStrictEqual([ [ 2 ], [ 1, 4 ], [ 3, 5 ] ]);
+				tree.cleanup().rotate();
+			} );
+		} );
 		describe( 'getNodeAt(...)', () => {
 			let testValues = [ 1, 2, 3, 4, 5, 6, 7 ];
 			let tree = new Tree( testValues );
@@ -817,6 +1778,13 @@ describe( 'Tree', () => {
 			test( 'returns -1 when no node in tree with the searched value', () => {
 				expect( tree.indexOf( 44 ) ).toBe( -1 );
 			} );
+			test( 'returns index of the first matching node when allowing duplicates', () => {
+				const tree = new Tree([ 1, 3, 3, 3, 3, 3, 5 ], { allowDuplicates: true });
+				expect( tree.indexOf( 3 ) ).toBe( 1 );
+				expect( tree.indexOf( 3, 3 ) ).toBe( 3 );
+				expect( tree.indexOf( 3, 2, 4 ) ).toBe( 2 );
+				expect( tree.indexOf( 4 ) ).toBe( -1 );
+			} );
 			describe( 'using negative range values', () => {
 				test( 'returns index when found search value in range with a negative start index', () => {
 					// deliberately using search value = 3 located at start index #2
@@ -846,6 +1814,31 @@ describe( 'Tree', () => {
 				} );
 			} );
 		} );
+		describe( 'indexOfKey(...)', () => {
+			const tree = new Tree(
+				[ 50, 10, 40, 20, 30, 20 ].map( id => ({ id }) ),
+				{ allowDuplicates: true, key: ({ id }) => id }
+			);
+			test( 'returns the index of the first value holding the key', () => {
+				expect( tree.indexOfKey( 10 ) ).toBe( 0 );
+				expect( tree.indexOfKey( 20 ) ).toBe( 1 );
+				expect( tree.indexOfKey( 50 ) ).toBe( 5 );
+			} );
+			test.each([ 5, 25, 55 ])( 'returns -1 for a missing key: %d', key => {
+				expect( tree.indexOfKey( key ) ).toBe( -1 );
+			} );
+			test( 'throws Error for a tree not ordered by its key option', () => {
+				const message = 'Cannot look up values by key in a tree not ordered by its `key` option.';
+				expect(() => new Tree([ 1 ]).indexOfKey( 1 ) ).toThrow( message );
+				const tree = new Tree([{ id: 1 }], {
+					isValueBefore: ( value, node ) => value.id > node.value.id,
+					key: ({ id }) => id
+				});
+				expect(() => tree.indexOfKey( 1 ) ).toThrow( message );
+				const comparedTree = new Tree([{ id: 1 }], { comparator: ( a, b ) => a.id - b.id, key: ({ id }) => id });
+				expect(() => comparedTree.indexOfKey( 1 ) ).toThrow( message );
+			} );
+		} );
 		describe( 'insert(...)', () => {
 			let tree : Tree<number>;
 			beforeEach(() => { tree = new Tree([ 1, 6, 10 ]) });
@@ -962,53 +1955,467 @@ describe( 'Tree', () => {
 				} );
 			} );
 		} );
-		describe( 'remove(...)', () => {
-			let testValues = [ 0, 3, 6, 9 ];
-			let tree = new Tree( testValues );
-			describe( '***', () => {
-				const t = tree.remove( 2 );
-				test( 'returns self', () => { expect( t ).toBe( tree ) } );
-				test( 'has no effect if not found in tree', () => {
-					expect( t.values ).toStrictEqual( testValues );
-				} );
+		describe( 'intersection(...)', () => {
+			test( 'returns a new tree holding values found in both trees', () => {
+				const tree = new Tree([ 1, 2, 3, 4, 5 ]);
+				expect( tree.intersection( new Tree([ 4, 5, 6, 7 ]) ).values ).toStrictEqual([ 4, 5 ]);
+				expect( tree.values ).toStrictEqual([ 1, 2, 3, 4, 5 ]);
 			} );
-			test( 'attempt to remove node by value from an empty tree is a no op', () => {
-				const tree = new Tree();
-				let treeIndexOfSpy = jest.spyOn( tree, 'indexOf' );
-				tree.remove( 99 );
-				expect( treeIndexOfSpy ).not.toHaveBeenCalled();
-				treeIndexOfSpy.mockRestore();
+			test( 'keeps the lesser duplicate value counts', () => {
+				const tree = new Tree([ 1, 2, 2, 2, 3 ], { allowDuplicates: true });
+				const result = tree.intersection( new Tree([ 2, 2, 4 ], { allowDuplicates: true }) );
+				expect( result.values ).toStrictEqual([ 2, 2 ]);
 			} );
-			test( 'removes & dissociates only nodes on tree matching values', () => {
-				expect( tree.values ).toStrictEqual([ 0, 3, 6, 9 ]);
-				/* ------------------------------------------------ */
-				const detachedNode = tree.getNodeAt( 1 ).detach(); // v = 3
-				expect( tree.values ).toStrictEqual([ 0, 6, 9 ]);
-				const node0 = tree.getNodeAt( 0 ); // v = 0
-				const node1 = tree.getNodeAt( 1 ); // v = 6
-				/* ------------------------------------------------ */
-				expect( detachedNode.isFree ).toBe( false );
-				expect( node0.isFree ).toBe( false );
-				expect( node1.isFree ).toBe( false );
-				/* ------------------------------------------------ */
-				tree.remove( 0 ).remove( 3 ).remove( 6 );
-				expect( detachedNode.isFree ).toBe( false );
-				expect( node0.isFree ).toBe( true );
-				expect( node1.isFree ).toBe( true );
-				/* ------------------------------------------------ */
-				expect( tree.values ).toStrictEqual([ 9 ])
+			test( 'keeps this tree\'s matching nodes when applied in place', () => {
+				const tree = new Tree([ 1, 2, 3, 4, 5 ]);
+				const node = tree.getNodeAt( 3 );
+				tree.intersection( new Tree([ 4, 5, 6, 7 ]), { inPlace: true });
+				expect( tree.values ).toStrictEqual([ 4, 5 ]);
+				expect( tree.getNodeAt( 0 ) ).toBe( node );
+				tree.cleanup().rotate();
 			} );
 		} );
-		describe( 'removeNode(...)', () => {
-			describe( '***', () => {
-				test( 'returns self', () => {
-					let tree = new Tree([ 72 ]);
-					expect( tree.removeNode( tree.getNodeAt( 0 ) )  ).toBe( tree );
-				} );
+		describe( 'isSubsetOf(...)', () => {
+			test.each([
+				[ [ 4, 5 ], [ 4, 5, 6, 7 ], true ],
+				[ [], [ 4, 5 ], true ],
+				[ [ 4, 5 ], [ 4, 5 ], true ],
+				[ [ 3, 4 ], [ 4, 5, 6 ], false ],
+				[ [ 4, 8 ], [ 4, 5, 6 ], false ],
+				[ [ 4, 5, 6 ], [ 4, 5 ], false ]
+			])( 'checks if %p is a subset of %p: %p', ( values, otherValues, isSubset ) => {
+				expect( new Tree( values ).isSubsetOf( new Tree( otherValues ) ) ).toBe( isSubset );
 			} );
-			test( 'disassociates any node if associated with this tree', () => {
-				let tree = new Tree([ 0, 3, 6, 9, 12 ]);
-				let testNode0 = tree.getNodeAt( 0 );
+			test( 'compares duplicate value counts', () => {
+				const tree = new Tree([ 2, 2, 3 ], { allowDuplicates: true });
+				expect( tree.isSubsetOf( new Tree([ 1, 2, 2, 3 ], { allowDuplicates: true }) ) ).toBe( true );
+				expect( tree.isSubsetOf( new Tree([ 1, 2, 3, 3 ], { allowDuplicates: true }) ) ).toBe( false );
+			} );
+			test( 'throws Error on trees with differing criteria', () => {
+				const t = () => new Tree([ 1 ]).isSubsetOf( new Tree([ 1 ], { isSameValue: ( a, { value } ) => a === value }) );
+				expect( t ).toThrow( Error );
+				expect( t ).toThrow( Tree.CRITERIA_MISMATCH_MESSAGE );
+			} );
+		} );
+		describe( 'keys(...)', () => {
+			test( 'generates in-order indexes', () => {
+				expect([ ...new Tree([ 'c', 'a', 'b' ]).keys() ]).toStrictEqual([ 0, 1, 2 ]);
+			} );
+		} );
+		describe( 'lastIndexOf(...)', () => {
+			test( 'returns index of the last matching node when allowing duplicates', () => {
+				const tree = new Tree([ 1, 3, 3, 3, 3, 3, 5 ], { allowDuplicates: true });
+				expect( tree.lastIndexOf( 3 ) ).toBe( 5 );
+				expect( tree.lastIndexOf( 3, 0, 3 ) ).toBe( 3 );
+				expect( tree.lastIndexOf( 3, -4, -2 ) ).toBe( 5 );
+				expect( tree.lastIndexOf( 4 ) ).toBe( -1 );
+			} );
+			test( 'returns same index as `indexOf(...)` when not allowing duplicates', () => {
+				const tree = new Tree([ 1, 3, 5 ]);
+				expect( tree.lastIndexOf( 3 ) ).toBe( tree.indexOf( 3 ) );
+				expect( tree.lastIndexOf( 4 ) ).toBe( -1 );
+			} );
+		} );
+		describe( 'lowerBound(...)', () => {
+			const tree = new Tree([ 0, 3, 6, 9 ]);
+			test.each([
+				[ -2, 0 ], [ 0, 0 ], [ 2, 1 ], [ 3, 1 ], [ 7, 3 ], [ 9, 3 ], [ 12, 4 ]
+			])( 'returns index of the first node not sorted before %d: %d', ( value, index ) => {
+				expect( tree.lowerBound( value ) ).toBe( index );
+			} );
+			test( 'returns 0 on an empty tree', () => {
+				expect(( new Tree<number>() ).lowerBound( 2 )).toBe( 0 );
+			} );
+		} );
+		describe( 'lowestCommonAncestor(...)', () => {
+			const values = [ 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15 ];
+			const tree = new Tree( values );
+			test.each([
+				[ 1, 3, 2 ], [ 1, 7, 4 ], [ 3, 13, 8 ], [ 4, 5, 4 ], [ 11, 11, 11 ]
+			])( 'returns the lowest common ancestor of nodes %d and %d: %d', ( value, otherValue, ancestorValue ) => {
+				const ancestor = tree.lowestCommonAncestor(
+					tree.getNodeAt( value - 1 ),
+					tree.getNodeAt( otherValue - 1 )
+				);
+				expect( ancestor.value ).toBe( ancestorValue );
+			} );
+			test( 'returns null if either node is detached', () => {
+				const tree = new Tree([ 1, 2, 3 ]);
+				const node = tree.getNodeAt( 0 );
+				expect( tree.lowestCommonAncestor( node, tree.getNodeAt( 2 ).detach() ) ).toBeNull();
+				tree.cleanup().rotate();
+			} );
+			test( 'follows the height-balanced links of a tree pending rotation', () => {
+				const tree = new Tree([ 1, 2, 3 ]);
+				tree.insert( 4 );
+				tree.insert( 5 );
+				expect( tree.lowestCommonAncestor( tree.getNodeAt( 2 ), tree.getNodeAt( 4 ) ).value ).toBe( 4 );
+				tree.rotate();
+				expect( tree.lowestCommonAncestor( tree.getNodeAt( 2 ), tree.getNodeAt( 4 ) ).value ).toBe( 3 );
+				tree.cleanup();
+			} );
+			test( 'throws TypeError on invalid node', () => {
+				// @ts-ignore
+				const t = () => tree.lowestCommonAncestor( tree.getNodeAt( 0 ), {} );
+				expect( t ).toThrow( TypeError );
+				expect( t ).toThrow( Tree.INVALID_NODE_MESSAGE );
+			} );
+			test( 'throws ReferenceError on node from another tree', () => {
+				const t = () => tree.lowestCommonAncestor( tree.getNodeAt( 0 ), new Tree([ 1 ]).getNodeAt( 0 ) );
+				expect( t ).toThrow( ReferenceError );
+				expect( t ).toThrow( Tree.TREE_MISMATCH_MESSAGE );
+			} );
+		} );
+		describe( 'map(...)', () => {
+			const tree = new Tree([ 1, 2, 3, 4, 5 ]);
+			test( 'lazily generates the callback results', () => {
+				const cb = jest.fn(( value : number ) => value * 10 );
+				const generator = tree.map( cb );
+				expect( cb ).not.toHaveBeenCalled();
+				expect( generator.next().value ).toBe( 10 );
+				expect( cb ).toHaveBeenCalledTimes( 1 );
+				expect( cb ).toHaveBeenCalledWith( 1, tree.getNodeAt( 0 ), tree );
+				expect([ ...generator ]).toStrictEqual([ 20, 30, 40, 50 ]);
+			} );
+			test( 'honors the traversal options', () => {
+				expect([ ...tree.map(( value, node ) => node.index, {
+					order: TraversalOrder.PRE
+				}) ]).toStrictEqual([ 2, 0, 1, 3, 4 ]);
+			} );
+			test( 'throws TypeError on non-function callback at call time', () => {
+				// @ts-ignore
+				const t = () => tree.map( 1 );
+				expect( t ).toThrow( TypeError );
+				expect( t ).toThrow( 'Invalid callback argument supplied to `map` method. Function expected.' );
+			} );
+		} );
+		describe( 'median(...)', () => {
+			test( 'returns the middle value of an odd-sized tree', () => {
+				expect(( new Tree([ 9, 1, 5 ]) ).median() ).toBe( 5 );
+			} );
+			test( 'interpolates the middle values of an even-sized tree', () => {
+				const tree = new Tree([ 9, 1, 4, 5 ]);
+				expect( tree.median() ).toBe( 4.5 );
+				expect( tree.median({ interpolation: 'lower' }) ).toBe( 4 );
+			} );
+			test( 'returns undefined on an empty tree', () => {
+				expect(( new Tree() ).median() ).toBeUndefined();
+			} );
+		} );
+		describe( 'on(...)', () => {
+			let events : Array<Array<unknown>>;
+			let tree : Tree<number>;
+			const record = ( eventName : string ) => ( ...args : Array<unknown> ) => { events.push([ eventName, ...args ]) };
+			beforeEach(() => {
+				events = [];
+				tree = new Tree([ 0, 3, 6, 9 ]);
+				for( const eventName of [ 'clear', 'detach', 'free', 'insert', 'join', 'remove', 'rotate', 'synchronize' ] ) {
+					tree.on( eventName as any, record( eventName ) );
+				}
+			});
+			afterEach(() => {
+				tree.cleanup().rotate();
+				events = tree = null;
+			});
+			test( 'publishes `insert` with the new index', () => {
+				tree.insert( 4 );
+				expect( events ).toEqual([[ 'insert', tree.getNodeAt( 2 ), 2 ]]);
+				events = [];
+				tree.insert( 4 );
+				expect( events ).toEqual([]);
+			} );
+			test( 'publishes `remove` with the old index', () => {
+				const node = tree.getNodeAt( 1 );
+				tree.remove( 3 );
+				expect( events ).toEqual([[ 'remove', node, 1 ]]);
+				events = [];
+				tree.removeNode( tree.getNodeAt( 2 ) );
+				expect( events ).toEqual([[ 'remove', expect.objectContaining({ value: 9 }), 2 ]]);
+			} );
+			test( 'publishes `detach` and `join` for nodes leaving and returning by themselves', () => {
+				const node = tree.getNodeAt( 2 );
+				node.detach();
+				expect( events ).toEqual([[ 'remove', node, 2 ], [ 'detach', node, 2 ]]);
+				events = [];
+				node.value = 1;
+				node.join();
+				expect( events ).toEqual([[ 'insert', node, 1 ], [ 'join', node, 1 ]]);
+				events = [];
+				node.free();
+				expect( events ).toEqual([[ 'remove', node, 1 ]]);
+			} );
+			test( 'publishes `free` for detached nodes disassociating', () => {
+				const node = tree.getNodeAt( 2 ).detach();
+				events = [];
+				node.free();
+				expect( events ).toEqual([[ 'free', node ]]);
+				events = [];
+				node.free();
+				expect( events ).toEqual([]);
+			} );
+			test( 'publishes `synchronize` with the old and new indexes', () => {
+				const node = tree.getNodeAt( 0 );
+				node.value = 7;
+				expect( events ).toEqual([[ 'synchronize', node, 0, 2 ]]);
+				events = [];
+				node.value = 8;
+				expect( events ).toEqual([[ 'synchronize', node, 2, 2 ]]);
+				events = [];
+				node.value = 9;
+				expect( events ).toEqual([[ 'synchronize', node, 2, -1 ]]);
+			} );
+			test( 'publishes `clear` followed by `insert` events on values replacement', () => {
+				const oldNodes = tree.traverse() as Array<TreeNode<number>>;
+				events = [];
+				tree.values = [ 5, 1 ];
+				expect( events ).toEqual([
+					[ 'clear', oldNodes ],
+					[ 'insert', tree.getNodeAt( 0 ), 0 ],
+					[ 'insert', tree.getNodeAt( 1 ), 1 ]
+				]);
+				events = [];
+				tree.clear();
+				expect( events ).toEqual([[ 'clear', [ expect.objectContaining({ value: 1 }), expect.objectContaining({ value: 5 }) ] ]]);
+			} );
+			test( 'publishes `rotate` once pending rotation completes', () => {
+				jest.runOnlyPendingTimers();
+				events = [];
+				tree.insert( 12 );
+				jest.runOnlyPendingTimers();
+				expect( events ).toEqual([[ 'insert', tree.getNodeAt( 4 ), 4 ], [ 'rotate' ]]);
+				events = [];
+				tree.rotate();
+				expect( events ).toEqual([]);
+			} );
+			test( 'returns an unsubscribe function', () => {
+				const subscriber = jest.fn();
+				const unsubscribe = tree.on( 'insert', subscriber );
+				tree.insert( 1 );
+				expect( unsubscribe() ).toBe( true );
+				tree.insert( 2 );
+				expect( subscriber ).toHaveBeenCalledTimes( 1 );
+				expect( unsubscribe() ).toBe( false );
+			} );
+			test( 'releases subscriptions on tree cleanup', () => {
+				tree.cleanup();
+				tree.insert( 1 );
+				expect( events ).toEqual([]);
+			} );
+			test( 'throws on unknown event names and non-function subscribers', () => {
+				expect(() => tree.on( 'update' as any, () => {} ) ).toThrow( TypeError );
+				expect(() => tree.on( 'insert', null ) ).toThrow( TypeError );
+			} );
+		} );
+		describe( 'pathBetween(...)', () => {
+			const values = [ 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15 ];
+			const tree = new Tree( values );
+			test.each([
+				[ 3, 5, [ 3, 2, 4, 6, 5 ] ],
+				[ 5, 3, [ 5, 6, 4, 2, 3 ] ],
+				[ 4, 1, [ 4, 2, 1 ] ],
+				[ 1, 15, [ 1, 2, 4, 8, 12, 14, 15 ] ],
+				[ 9, 9, [ 9 ] ]
+			])( 'returns nodes on the path from node %d to node %d', ( value, otherValue, expected ) => {
+				const path = tree.pathBetween( tree.getNodeAt( value - 1 ), tree.getNodeAt( otherValue - 1 ) );
+				expect( path.map(({ value }) => value ) ).toStrictEqual( expected );
+			} );
+			test( 'returns empty array if either node is detached', () => {
+				const tree = new Tree([ 1, 2, 3 ]);
+				const node = tree.getNodeAt( 0 ).detach();
+				expect( tree.pathBetween( node, tree.getNodeAt( 0 ) ) ).toStrictEqual([]);
+				tree.cleanup().rotate();
+			} );
+			test( 'throws ReferenceError on node from another tree', () => {
+				const t = () => tree.pathBetween( new Tree([ 1 ]).getNodeAt( 0 ), tree.getNodeAt( 0 ) );
+				expect( t ).toThrow( ReferenceError );
+				expect( t ).toThrow( Tree.TREE_MISMATCH_MESSAGE );
+			} );
+		} );
+		describe( 'quantile(...)', () => {
+			const tree = new Tree([ 10, 20, 30, 40, 50 ]);
+			test.each([
+				[ 0, 10 ], [ 1, 50 ], [ 0.5, 30 ], [ 0.1, 14 ], [ 0.9, 46 ], [ 0.99, 49.6 ]
+			])( 'interpolates linearly by default: p%d => %d', ( p, value ) => {
+				expect( tree.quantile( p ) ).toBeCloseTo( value );
+			} );
+			test.each([
+				[ 'higher', 0.3, 30 ],
+				[ 'linear', 0.3, 22 ],
+				[ 'lower', 0.3, 20 ],
+				[ 'midpoint', 0.3, 25 ],
+				[ 'nearest', 0.3, 20 ],
+				[ 'nearest', 0.4, 30 ],
+				[ 'nearest', 0.125, 10 ],
+				[ 'nearest', 0.375, 30 ]
+			])( 'applies the %s interpolation at p%d: %d', ( interpolation, p, value ) => {
+				expect( tree.quantile( p, { interpolation } as any ) ).toBeCloseTo( value );
+			} );
+			test( 'returns values as is under non-numeric interpolations', () => {
+				const tree = new Tree([ 'b', 'a', 'c', 'd' ]);
+				expect( tree.quantile( 0.5, { interpolation: 'lower' }) ).toBe( 'b' );
+				expect( tree.quantile( 0.5, { interpolation: 'higher' }) ).toBe( 'c' );
+				expect(() => tree.quantile( 0.5 ) ).toThrow( TypeError );
+			} );
+			test( 'reflects the current tree values', () => {
+				const tree = new Tree([ 1, 2, 3 ]);
+				expect( tree.quantile( 1 ) ).toBe( 3 );
+				tree.insert( 7 ).remove( 1 );
+				expect( tree.quantile( 1 ) ).toBe( 7 );
+				expect( tree.quantile( 0 ) ).toBe( 2 );
+			} );
+			test( 'returns undefined on an empty tree', () => {
+				expect(( new Tree() ).quantile( 0.5 ) ).toBeUndefined();
+			} );
+			test( 'throws on invalid arguments', () => {
+				expect(() => tree.quantile( '0.5' as any ) ).toThrow( TypeError );
+				expect(() => tree.quantile( NaN ) ).toThrow( TypeError );
+				expect(() => tree.quantile( 1.5 ) ).toThrow( Error );
+				expect(() => tree.quantile( -0.1 ) ).toThrow( Error );
+				expect(() => tree.quantile( 0.5, { interpolation: 'cubic' as any }) ).toThrow( Error );
+			} );
+		} );
+		describe( 'rangeOf(...)', () => {
+			const tree = new Tree([ 0, 3, 6, 9, 12, 15 ]);
+			test( 'returns a list of the nodes in range', () => {
+				const nodes = tree.rangeOf({ from: 2, to: 9, toInclusive: false });
+				expect( nodes ).toStrictEqual([ tree.getNodeAt( 1 ), tree.getNodeAt( 2 ) ]);
+			} );
+			test( 'invokes the range generator with options argument', () => {
+				const genRangeSpy = jest.spyOn( tree, 'genRange' );
+				const options = { from: 3 };
+				tree.rangeOf( options );
+				expect( genRangeSpy ).toHaveBeenCalledTimes( 1 );
+				expect( genRangeSpy ).toHaveBeenCalledWith( options );
+				genRangeSpy.mockRestore();
+			} );
+		} );
+		describe( 'rank(...)', () => {
+			const tree = new Tree([ 0, 3, 6, 9 ]);
+			test.each([
+				[ -2, 0 ], [ 0, 0 ], [ 2, 1 ], [ 3, 1 ], [ 7, 3 ], [ 12, 4 ]
+			])( 'counts the values sorted before %d: %d', ( value, rank ) => {
+				expect( tree.rank( value ) ).toBe( rank );
+			} );
+			test( 'counts duplicate values once per node', () => {
+				const tree = new Tree([ 1, 2, 2, 2, 3 ], { allowDuplicates: true });
+				expect( tree.rank( 2 ) ).toBe( 1 );
+				expect( tree.rank( 3 ) ).toBe( 4 );
+			} );
+		} );
+		describe( 'reduce(...)', () => {
+			const tree = new Tree([ 1, 2, 3, 4, 5 ]);
+			test( 'accumulates values from the initial value', () => {
+				expect( tree.reduce(( sum, value ) => sum + value, { initialValue: 100 } ) ).toBe( 115 );
+				expect( tree.reduce(( values, value ) => [ ...values, value ], { initialValue: [] } ) ).toStrictEqual([ 1, 2, 3, 4, 5 ]);
+			} );
+			test( 'accumulates from an undefined initial value', () => {
+				const cb = jest.fn(( count : number ) => ( count ?? 0 ) + 1 );
+				expect( tree.reduce( cb, { initialValue: undefined } ) ).toBe( 5 );
+				expect( cb ).toHaveBeenNthCalledWith( 1, undefined, 1, tree.getNodeAt( 0 ), tree );
+			} );
+			test( 'starts from the first value without an initial value', () => {
+				const cb = jest.fn(( sum : number, value : number ) => sum + value );
+				expect( tree.reduce( cb ) ).toBe( 15 );
+				expect( cb ).toHaveBeenCalledTimes( 4 );
+				expect( cb ).toHaveBeenNthCalledWith( 1, 1, 2, tree.getNodeAt( 1 ), tree );
+			} );
+			test( 'honors the traversal options', () => {
+				expect( tree.reduce(( str, value ) => str + value, {
+					initialValue: '',
+					maxLength: 3,
+					order: TraversalOrder.PRE
+				}) ).toBe( '312' );
+			} );
+			test( 'honors the traversal options without an initial value', () => {
+				expect( tree.reduce(( sum, value ) => sum - value, {
+					direction: TraversalDirection.LEFT
+				}) ).toBe( -5 );
+				expect( tree.reduce(( sum, value ) => sum + value, null ) ).toBe( 15 );
+			} );
+			test( 'returns the initial value on an empty traversal', () => {
+				expect( new Tree<number>().reduce(( sum, value ) => sum + value, { initialValue: 0 } ) ).toBe( 0 );
+			} );
+			test( 'throws TypeError on an empty traversal without an initial value', () => {
+				const t = () => new Tree<number>().reduce(( sum, value ) => sum + value );
+				expect( t ).toThrow( TypeError );
+				expect( t ).toThrow( 'Cannot reduce an empty traversal without an `initialValue` option.' );
+			} );
+			test( 'throws TypeError on non-function callback', () => {
+				// @ts-ignore
+				const t = () => tree.reduce( undefined, { initialValue: 0 } );
+				expect( t ).toThrow( TypeError );
+				expect( t ).toThrow( 'Invalid callback argument supplied to `reduce` method. Function expected.' );
+			} );
+		} );
+		describe( 'remove(...)', () => {
+			let testValues = [ 0, 3, 6, 9 ];
+			let tree = new Tree( testValues );
+			describe( '***', () => {
+				const t = tree.remove( 2 );
+				test( 'returns self', () => { expect( t ).toBe( tree ) } );
+				test( 'has no effect if not found in tree', () => {
+					expect( t.values ).toStrictEqual( testValues );
+				} );
+			} );
+			test( 'removes the first matching node when allowing duplicates', () => {
+				const tree = new Tree([ 1, 3, 3, 5 ], { allowDuplicates: true });
+				const node = tree.getNodeAt( 1 );
+				tree.remove( 3 );
+				expect( tree.values ).toStrictEqual([ 1, 3, 5 ]);
+				expect( node.isFree ).toBe( true );
+			} );
+			test( 'attempt to remove node by value from an empty tree is a no op', () => {
+				const tree = new Tree();
+				let treeIndexOfSpy = jest.spyOn( tree, 'indexOf' );
+				tree.remove( 99 );
+				expect( treeIndexOfSpy ).not.toHaveBeenCalled();
+				treeIndexOfSpy.mockRestore();
+			} );
+			test( 'removes & dissociates only nodes on tree matching values', () => {
+				expect( tree.values ).toStrictEqual([ 0, 3, 6, 9 ]);
+				/* ------------------------------------------------ */
+				const detachedNode = tree.getNodeAt( 1 ).detach(); // v = 3
+				expect( tree.values ).toStrictEqual([ 0, 6, 9 ]);
+				const node0 = tree.getNodeAt( 0 ); // v = 0
+				const node1 = tree.getNodeAt( 1 ); // v = 6
+				/* ------------------------------------------------ */
+				expect( detachedNode.isFree ).toBe( false );
+				expect( node0.isFree ).toBe( false );
+				expect( node1.isFree ).toBe( false );
+				/* ------------------------------------------------ */
+				tree.remove( 0 ).remove( 3 ).remove( 6 );
+				expect( detachedNode.isFree ).toBe( false );
+				expect( node0.isFree ).toBe( true );
+				expect( node1.isFree ).toBe( true );
+				/* ------------------------------------------------ */
+				expect( tree.values ).toStrictEqual([ 9 ])
+			} );
+		} );
+		describe( 'removeAll(...)', () => {
+			test( 'removes all nodes matching value', () => {
+				const tree = new Tree([ 1, 3, 3, 5, 3, 1 ], { allowDuplicates: true });
+				const nodes = tree.rangeOf({ from: 3, to: 3 });
+				expect( nodes ).toHaveLength( 3 );
+				expect( tree.removeAll( 3 ) ).toBe( tree );
+				expect( tree.values ).toStrictEqual([ 1, 1, 5 ]);
+				expect( nodes.every( n => n.isFree ) ).toBe( true );
+			} );
+			test( 'removing an absent value is a no op', () => {
+				const tree = new Tree([ 1, 3, 5 ]);
+				tree.removeAll( 4 );
+				expect( tree.values ).toStrictEqual([ 1, 3, 5 ]);
+			} );
+		} );
+		describe( 'removeNode(...)', () => {
+			describe( '***', () => {
+				test( 'returns self', () => {
+					let tree = new Tree([ 72 ]);
+					expect( tree.removeNode( tree.getNodeAt( 0 ) )  ).toBe( tree );
+				} );
+			} );
+			test( 'disassociates any node if associated with this tree', () => {
+				let tree = new Tree([ 0, 3, 6, 9, 12 ]);
+				let testNode0 = tree.getNodeAt( 0 );
 				let testNode2 = tree.getNodeAt( 2 );
 				let detachedNode = tree.getNodeAt( 4 ).detach();
 				let node0FreeSpy = jest.spyOn( testNode0, 'free' );
@@ -1029,6 +2436,43 @@ describe( 'Tree', () => {
 				testNode0 = testNode2 = detachedNode = tree = null;
 			} );
 		} );
+		describe( 'redo(...)', () => {
+			let tree : Tree<number>;
+			beforeEach(() => { tree = new Tree([ 10, 20, 30 ], { historyDepth: 5 }) });
+			afterEach(() => {
+				tree.cleanup().rotate();
+				tree = null;
+			});
+			test( 'reapplies the steps undone in reverse order', () => {
+				const node = tree.insert( 40 ).getNodeAt( 3 );
+				tree.remove( 10 ).undo().undo();
+				expect( tree.redo().values ).toEqual([ 10, 20, 30, 40 ]);
+				expect( tree.getNodeAt( 3 ) ).toBe( node );
+				expect( tree.redo().values ).toEqual([ 20, 30, 40 ]);
+				expect( tree.redo().values ).toEqual([ 20, 30, 40 ]);
+			} );
+			test( 'reapplies value changes and detachments', () => {
+				const node = tree.getNodeAt( 0 );
+				node.value = 35;
+				tree.getNodeAt( 0 ).detach();
+				tree.undo().undo().redo().redo();
+				expect( tree.values ).toEqual([ 30, 35 ]);
+				expect( node.value ).toBe( 35 );
+			} );
+			test( 'drops the redoable steps on any new step', () => {
+				tree.insert( 40 ).undo().insert( 50 );
+				expect( tree.canRedo ).toBe( false );
+				expect( tree.redo().values ).toEqual([ 10, 20, 30, 50 ]);
+			} );
+			test( 'publishes the redo event', () => {
+				const redoSpy = jest.fn();
+				tree.on( 'redo', redoSpy );
+				tree.redo();
+				expect( redoSpy ).not.toHaveBeenCalled();
+				tree.insert( 40 ).undo().redo();
+				expect( redoSpy ).toHaveBeenCalledTimes( 1 );
+			} );
+		} );
 		describe( 'rotate(...)', () => {
 			test( 'is automatically scheduled on writes', () => {
 				setTimeoutSpy.mockClear();
@@ -1142,6 +2586,116 @@ describe( 'Tree', () => {
 				tree = null;
 			} );
 		} );
+		describe( 'select(...)', () => {
+			const tree = new Tree([ 9, 0, 6, 3 ]);
+			test( 'returns the node holding the kth smallest value', () => {
+				expect( tree.select( 0 ).value ).toBe( 0 );
+				expect( tree.select( 2 ).value ).toBe( 6 );
+				expect( tree.select( 3 ) ).toBe( tree.getNodeAt( 3 ) );
+			} );
+			test.each([ 4, -1, 1.5, NaN ])( 'returns undefined for out of range k: %d', k => {
+				expect( tree.select( k ) ).toBeUndefined();
+			} );
+		} );
+		describe( 'snapshot(...)', () => {
+			test( 'shares the pending snapshot until the next write', () => {
+				const tree = new Tree([ 1, 2, 3 ]);
+				const snapshot = tree.snapshot();
+				expect( snapshot ).toBeInstanceOf( TreeSnapshot );
+				expect( tree.snapshot() ).toBe( snapshot );
+				tree.insert( 4 );
+				expect( tree.snapshot() ).not.toBe( snapshot );
+				tree.cleanup().rotate();
+			} );
+		} );
+		describe( 'some(...)', () => {
+			const tree = new Tree([ 1, 2, 3, 4, 5 ]);
+			test( 'checks if any value passes the predicate', () => {
+				expect( tree.some( value => value > 4 ) ).toBe( true );
+				expect( tree.some( value => value > 5 ) ).toBe( false );
+				expect( new Tree<number>().some( value => value > 0 ) ).toBe( false );
+			} );
+			test( 'stops at the first passing node', () => {
+				const predicate = jest.fn(( value : number ) => value > 1 );
+				expect( tree.some( predicate ) ).toBe( true );
+				expect( predicate ).toHaveBeenCalledTimes( 2 );
+			} );
+			test( 'honors the traversal options', () => {
+				expect( tree.some( value => value > 4, { maxLength: 4 }) ).toBe( false );
+			} );
+			test( 'throws TypeError on non-function predicate', () => {
+				// @ts-ignore
+				const t = () => tree.some({});
+				expect( t ).toThrow( TypeError );
+				expect( t ).toThrow( 'Invalid callback argument supplied to `some` method. Function expected.' );
+			} );
+		} );
+		describe( 'splitAt(...)', () => {
+			const testValues = [ 1, 2, 3, 4, 5, 6, 7 ];
+			test.each([
+				[ { index: 3 }, [ 1, 2, 3 ], [ 4, 5, 6, 7 ] ],
+				[ { index: -2 }, [ 1, 2, 3, 4, 5 ], [ 6, 7 ] ],
+				[ { index: 0 }, [], testValues ],
+				[ { index: 20 }, testValues, [] ],
+				[ { index: -20 }, [], testValues ],
+				[ { value: 5 }, [ 1, 2, 3, 4 ], [ 5, 6, 7 ] ],
+				[ { value: 4.5 }, [ 1, 2, 3, 4 ], [ 5, 6, 7 ] ],
+				[ { value: 0 }, [], testValues ]
+			])( 'splits the tree at %p', ( at, leftValues, rightValues ) => {
+				const tree = new Tree( testValues );
+				const [ left, right ] = tree.splitAt( at );
+				expect( left.values ).toStrictEqual( leftValues );
+				expect( right.values ).toStrictEqual( rightValues );
+				expect( tree.size ).toBe( 0 );
+			} );
+			test( 'moves the existing nodes into balanced trees', () => {
+				const tree = new Tree( testValues, { rebalance: 'manual' });
+				const nodes = tree.traverse() as Array<TreeNode<number>>;
+				const [ left, right ] = tree.splitAt({ index: 2 });
+				expect( left.rebalance ).toBe( 'manual' );
+				expect( right.getLevels() ).toHaveLength( 3 );
+				nodes.forEach(( node, i ) => {
+					const expectedTree = i < 2 ? left : right;
+					const expectedIndex = i < 2 ? i : i - 2;
+					expect( node.tree ).toBe( expectedTree );
+					expect( node.index ).toBe( expectedIndex );
+					expect( expectedTree.getNodeAt( expectedIndex ) ).toBe( node );
+				} );
+			} );
+			test( 'keeps detached nodes associated with this tree', () => {
+				const tree = new Tree( testValues );
+				const node = tree.getNodeAt( 0 ).detach();
+				const [ left ] = tree.splitAt({ value: 4 });
+				expect( left.values ).toStrictEqual([ 2, 3 ]);
+				expect( node.tree ).toBe( tree );
+				node.join();
+				expect( tree.values ).toStrictEqual([ 1 ]);
+				tree.cleanup().rotate();
+			} );
+			test( 'restores the nodes on transaction rollback', () => {
+				const tree = new Tree( testValues );
+				const nodes = tree.traverse() as Array<TreeNode<number>>;
+				let trees : Array<Tree<number>>;
+				expect(() => tree.transaction(() => {
+					trees = tree.splitAt({ index: 3 });
+					throw new Error( 'rollback' );
+				}) ).toThrow( 'rollback' );
+				expect( tree.values ).toStrictEqual( testValues );
+				expect( trees.map(({ size }) => size ) ).toStrictEqual([ 0, 0 ]);
+				nodes.forEach(( node, i ) => {
+					expect( node.tree ).toBe( tree );
+					expect( tree.getNodeAt( i ) ).toBe( node );
+				} );
+			} );
+			test.each([
+				[ undefined ], [ null ], [ 3 ], [ {} ], [ { index: 1.5 } ]
+			])( 'throws TypeError on invalid split point %p', at => {
+				// @ts-ignore
+				const t = () => new Tree( testValues ).splitAt( at );
+				expect( t ).toThrow( TypeError );
+				expect( t ).toThrow( 'Invalid `at` argument supplied to `splitAt` method. `{ index: int }` or `{ value: T }` expected.' );
+			} );
+		} );
 		describe( 'synchronize(...)', () => {
 			let testValues : Array<number>;
 			beforeAll(() => { testValues = [ 0, 3, 6, 9 ] });
@@ -1179,20 +2733,15 @@ describe( 'Tree', () => {
 				const OLD_INDEX = 2;
 				const node = tree.getNodeAt( OLD_INDEX );
 				expect( tree.values ).toStrictEqual( testValues );
-				let arraySpliceSpy = jest.spyOn( Array.prototype, 'splice' );
+				jest.runOnlyPendingTimers();
+				setTimeoutSpy.mockClear();
 				node.value = 4;
 				const newTreeValues = tree.values;
 				expect( newTreeValues ).toStrictEqual([ 0, 3, 4, 9 ]);
 				expect( newTreeValues[ OLD_INDEX ] ).toBe( 4 );
-				// the following looks for array splice invocation to return
-				// the temporarily withheld current node to its previous spot.
-				expect( arraySpliceSpy.mock.calls.some( c => ( 
-					c[ 0 ] === OLD_INDEX &&
-					c[ 1 ] === 0 &&
-					c[ 2 ] === node
-				) ) ).toBe( true );
-				arraySpliceSpy.mockRestore()
-				arraySpliceSpy = null;
+				expect( node.index ).toBe( OLD_INDEX );
+				expect( tree.getNodeAt( OLD_INDEX ) ).toBe( node );
+				expect( setTimeoutSpy ).not.toHaveBeenCalled();
 				tree = null;
 			} );
 			test( 'suspends undetached node from tree if its value is changed to a value of another undetached node', () => {
@@ -1220,6 +2769,23 @@ describe( 'Tree', () => {
 				tree = null;
 			} );
 		} );
+		describe( 'symmetricDifference(...)', () => {
+			test( 'returns a new tree holding values found in exactly one of the trees', () => {
+				const tree = new Tree([ 1, 2, 3, 4, 5 ]);
+				expect( tree.symmetricDifference( new Tree([ 4, 5, 6, 7 ]) ).values ).toStrictEqual([ 1, 2, 3, 6, 7 ]);
+			} );
+			test( 'keeps the duplicate value count differences', () => {
+				const tree = new Tree([ 1, 2, 2, 2, 3 ], { allowDuplicates: true });
+				const result = tree.symmetricDifference( new Tree([ 2, 2, 4, 4 ], { allowDuplicates: true }) );
+				expect( result.values ).toStrictEqual([ 1, 2, 3, 4, 4 ]);
+			} );
+			test( 'applies the result in place', () => {
+				const tree = new Tree([ 1, 2, 3, 4, 5 ]);
+				expect( tree.symmetricDifference( new Tree([ 4, 5, 6, 7 ]), { inPlace: true }) ).toBe( tree );
+				expect( tree.values ).toStrictEqual([ 1, 2, 3, 6, 7 ]);
+				tree.cleanup().rotate();
+			} );
+		} );
 		describe( 'traverse(...)', () => {
 			let testValues = [ 0, 3, 6, 9 ];
 			let tree = new Tree( testValues );
@@ -1254,6 +2820,321 @@ describe( 'Tree', () => {
 				expect( genTraversalSpy ).toHaveBeenCalledWith( options )
 				genTraversalSpy.mockRestore();
 			} );
+			test( 'throws ConcurrentModificationError when `cb` structurally modifies the tree', () => {
+				const tree = new Tree([ 1, 2, 3 ]);
+				const t = () => tree.traverse( node => { node.value === 2 && tree.remove( 3 ) } );
+				expect( t ).toThrow( ConcurrentModificationError );
+				tree.cleanup().rotate();
+			} );
+		} );
+		describe( 'toJSON(...)', () => {
+			const tree = new Tree([ 6, 0, 9, 3 ]);
+			test( 'serializes values in in-order sequence', () => {
+				expect( tree.toJSON() ).toStrictEqual({ allowDuplicates: false, values: [ 0, 3, 6, 9 ] });
+				expect( JSON.stringify( tree ) ).toBe( '{"allowDuplicates":false,"values":[0,3,6,9]}' );
+			} );
+			test( 'applies the replacer', () => {
+				expect( tree.toJSON({ replacer: ( v, i ) => `${ i }:${ v }` }).values ).toStrictEqual([ '0:0', '1:3', '2:6', '3:9' ]);
+			} );
+			test( 'includes the tree shape as in-order indexes in pre-order sequence on demand', () => {
+				const preOrderIndexes = ( tree.traverse( undefined, {
+					order: TraversalOrder.PRE
+				} ) as Array<TreeNode<number>> ).map(({ index }) => index );
+				expect( tree.toJSON({ shape: true }).shape ).toStrictEqual( preOrderIndexes );
+			} );
+			test( 'throws on non-function replacer', () => {
+				expect(() => tree.toJSON({ replacer: 'x' as any }) ).toThrow( TypeError );
+			} );
+		} );
+		describe( 'transaction(...)', () => {
+			let tree : Tree<number>;
+			beforeEach(() => {
+				tree = new Tree([ 0, 3, 6, 9 ]);
+				jest.runOnlyPendingTimers();
+			});
+			afterEach(() => {
+				tree.cleanup().rotate();
+				tree = null;
+			});
+			test( 'returns the `tx` return value', () => {
+				expect( tree.transaction( t => t.insert( 4 ).size ) ).toBe( 5 );
+			} );
+			test( 'publishes a single `commit` event in place of the mutation events', () => {
+				const commitSubscriber = jest.fn();
+				const insertSubscriber = jest.fn();
+				tree.on( 'commit', commitSubscriber );
+				tree.on( 'insert', insertSubscriber );
+				tree.transaction( t => {
+					t.insert( 4 ).remove( 0 );
+					t.getNodeAt( 0 ).value = 10;
+				} );
+				expect( insertSubscriber ).not.toHaveBeenCalled();
+				expect( commitSubscriber ).toHaveBeenCalledTimes( 1 );
+				expect( commitSubscriber.mock.calls[ 0 ][ 0 ].map(({ type, args }) => [ type, ...args.slice( 1 ) ]) ).toEqual([
+					[ 'insert', 2 ], [ 'remove', 0 ], [ 'synchronize', 0, 3 ]
+				]);
+				tree.transaction(() => {} );
+				expect( commitSubscriber ).toHaveBeenCalledTimes( 1 );
+			} );
+			test( 'defers rotation to the commit', () => {
+				tree.rebalance = 'immediate';
+				const treeRotateSpy = jest.spyOn( tree, 'rotate' );
+				tree.transaction( t => {
+					t.insert( 1 ).insert( 2 ).remove( 9 );
+					expect( treeRotateSpy ).not.toHaveBeenCalled();
+				} );
+				expect( treeRotateSpy ).toHaveBeenCalledTimes( 1 );
+				treeRotateSpy.mockRestore();
+			} );
+			test( 'restores the tree and its nodes when `tx` throws', () => {
+				const subscriber = jest.fn();
+				tree.on( 'commit', subscriber );
+				tree.on( 'insert', subscriber );
+				const nodes = tree.traverse() as Array<TreeNode<number>>;
+				const error = new Error( 'tx failure' );
+				expect(() => tree.transaction( t => {
+					t.insert( 4 ).insert( 12 ).remove( 3 );
+					nodes[ 0 ].value = 7;
+					nodes[ 2 ].detach();
+					nodes[ 3 ].value = 0;
+					t.values = [ ...t.values, 20 ];
+					throw error;
+				} ) ).toThrow( error );
+				expect( tree.values ).toStrictEqual([ 0, 3, 6, 9 ]);
+				nodes.forEach(( node, i ) => {
+					expect( tree.getNodeAt( i ) ).toBe( node );
+					expect( node.index ).toBe( i );
+					expect( node.isDetached ).toBe( false );
+					expect( node.tree ).toBe( tree );
+				} );
+				expect( subscriber ).not.toHaveBeenCalled();
+			} );
+			test( 'restores the nodes joined and freed within a failed transaction', () => {
+				const detachedNode = tree.getNodeAt( 1 ).detach();
+				const node = tree.getNodeAt( 2 );
+				expect(() => tree.transaction(() => {
+					detachedNode.join();
+					node.free();
+					throw new Error( 'tx failure' );
+				} ) ).toThrow();
+				expect( tree.values ).toStrictEqual([ 0, 6, 9 ]);
+				expect( detachedNode.isDetached ).toBe( true );
+				expect( detachedNode.tree ).toBe( tree );
+				expect( node.isFree ).toBe( false );
+				expect( tree.getNodeAt( 2 ) ).toBe( node );
+				tree.cleanup();
+				expect( detachedNode.isFree ).toBe( true );
+			} );
+			test( 'restores the tree when its criteria throw mid-transaction', () => {
+				tree.isValueBefore = ( v, n ) => {
+					if( v === 5 ) { throw new Error( 'comparison failure' ) }
+					return v < n.value;
+				};
+				const node = tree.getNodeAt( 0 );
+				expect(() => tree.transaction( t => {
+					t.insert( 1 );
+					node.value = 5;
+				} ) ).toThrow( 'comparison failure' );
+				expect( tree.values ).toStrictEqual([ 0, 3, 6, 9 ]);
+				expect( tree.getNodeAt( 0 ) ).toBe( node );
+			} );
+			test( 'restores the criteria and mode changed within a failed transaction', () => {
+				const { isValueBefore } = tree;
+				expect(() => tree.transaction( t => {
+					t.allowDuplicates = true;
+					t.isValueBefore = ( v, n ) => v > n.value;
+					throw new Error( 'tx failure' );
+				} ) ).toThrow();
+				expect( tree.allowDuplicates ).toBe( false );
+				expect( tree.isValueBefore ).toBe( isValueBefore );
+				expect( tree.values ).toStrictEqual([ 0, 3, 6, 9 ]);
+			} );
+			test( 'rolls back only the writes of a failed nested transaction', () => {
+				const subscriber = jest.fn();
+				tree.on( 'commit', subscriber );
+				tree.transaction( t => {
+					t.insert( 1 );
+					expect(() => t.transaction( t => {
+						t.insert( 2 ).remove( 9 );
+						throw new Error( 'nested tx failure' );
+					} ) ).toThrow();
+					t.insert( 4 );
+				} );
+				expect( tree.values ).toStrictEqual([ 0, 1, 3, 4, 6, 9 ]);
+				expect( subscriber ).toHaveBeenCalledTimes( 1 );
+				expect( subscriber.mock.calls[ 0 ][ 0 ].map(({ type }) => type ) ).toEqual([ 'insert', 'insert' ]);
+			} );
+			test( 'throws on non-function `tx` argument', () => {
+				expect(() => tree.transaction( null ) ).toThrow( TypeError );
+			} );
+		} );
+		describe( 'undo(...)', () => {
+			let tree : Tree<number>;
+			beforeEach(() => { tree = new Tree([ 10, 20, 30 ], { historyDepth: 5 }) });
+			afterEach(() => {
+				tree.cleanup().rotate();
+				tree = null;
+			});
+			test( 'records no steps while the history is off', () => {
+				const tree = new Tree([ 1 ]);
+				expect( tree.insert( 2 ).undo().values ).toEqual([ 1, 2 ]);
+				tree.cleanup().rotate();
+			} );
+			test( 'restores the original instances of removed nodes', () => {
+				const node = tree.getNodeAt( 1 );
+				tree.remove( 20 );
+				expect( node.isFree ).toBe( true );
+				expect( tree.undo().values ).toEqual([ 10, 20, 30 ]);
+				expect( tree.getNodeAt( 1 ) ).toBe( node );
+				expect( node.tree ).toBe( tree );
+				expect( node.isDetached ).toBe( false );
+			} );
+			test( 'reverts inserts', () => {
+				const node = tree.insert( 25 ).getNodeAt( 2 );
+				expect( tree.undo().values ).toEqual([ 10, 20, 30 ]);
+				expect( node.isFree ).toBe( true );
+			} );
+			test( 'reverts detachments and joins', () => {
+				const node = tree.getNodeAt( 0 );
+				node.detach();
+				node.join();
+				expect( tree.undo().values ).toEqual([ 20, 30 ]);
+				expect( node.isDetached ).toBe( true );
+				expect( tree.undo().values ).toEqual([ 10, 20, 30 ]);
+				expect( tree.getNodeAt( 0 ) ).toBe( node );
+			} );
+			test( 'reverts node value changes', () => {
+				const node = tree.getNodeAt( 0 );
+				node.value = 25;
+				node.value = 40;
+				expect( tree.undo().values ).toEqual([ 20, 25, 30 ]);
+				expect( tree.undo().values ).toEqual([ 10, 20, 30 ]);
+				expect( tree.getNodeAt( 0 ) ).toBe( node );
+			} );
+			test( 'reverts each write at once', () => {
+				const nodes = tree.getNodeAt( 0 ) && [ ...tree.genTraversal() ];
+				tree.values = [ 1, 2 ];
+				tree.clear();
+				expect( tree.undo().values ).toEqual([ 1, 2 ]);
+				expect( tree.undo().values ).toEqual([ 10, 20, 30 ]);
+				expect([ ...tree.genTraversal() ]).toEqual( nodes );
+			} );
+			test( 'reverts a transaction as a single step', () => {
+				tree.transaction(() => {
+					tree.insert( 40 ).remove( 10 );
+					tree.getNodeAt( 0 ).value = 50;
+				});
+				expect( tree.values ).toEqual([ 30, 40, 50 ]);
+				expect( tree.undo().values ).toEqual([ 10, 20, 30 ]);
+				expect( tree.canUndo ).toBe( false );
+			} );
+			test( 'records nothing for a rolled back transaction', () => {
+				tree.insert( 40 );
+				expect(() => tree.transaction(() => {
+					tree.insert( 50 );
+					throw new Error( 'abort' );
+				}) ).toThrow( 'abort' );
+				expect( tree.undo().values ).toEqual([ 10, 20, 30 ]);
+				expect( tree.canUndo ).toBe( false );
+			} );
+			test( 'keeps no more steps than the history depth', () => {
+				for( let i = 1; i <= 7; i++ ) { tree.insert( i ) }
+				for( let i = 7; i--; ) { tree.undo() }
+				expect( tree.values ).toEqual([ 1, 2, 10, 20, 30 ]);
+			} );
+			test( 'drops the history on criteria changes', () => {
+				tree.insert( 40 );
+				tree.isValueBefore = ( value, node ) => value > node.value;
+				expect( tree.canUndo ).toBe( false );
+			} );
+			test( 'throws during a transaction', () => {
+				tree.insert( 40 );
+				expect(() => tree.transaction(() => { tree.undo() }) ).toThrow(
+					'Cannot undo or redo writes during a transaction.'
+				);
+				expect( tree.values ).toEqual([ 10, 20, 30, 40 ]);
+			} );
+			test( 'walks back and forth through random writes', () => {
+				let seed = 11;
+				const random = ( n : number ) => ( seed = seed * 16807 % 2147483647 ) % n;
+				const tree = new Tree<number>( [], { allowDuplicates: true, historyDepth: Infinity, rebalance: 'manual' });
+				const states = [ tree.values ];
+				for( let i = 0; i < 200; i++ ) {
+					const size = tree.size;
+					switch( size ? random( 5 ) : 0 ) {
+						case 0: tree.insert( random( 50 ) ); break;
+						case 1: tree.remove( tree.at( random( size ) ) ); break;
+						case 2: tree.getNodeAt( random( size ) ).value += 1 + random( 50 ); break;
+						case 3: tree.getNodeAt( random( size ) ).detach(); break;
+						default: tree.removeAll( tree.at( random( size ) ) );
+					}
+					states.push( tree.values );
+				}
+				for( let i = states.length; --i; ) { expect( tree.undo().values ).toEqual( states[ i - 1 ] ) }
+				expect( tree.canUndo ).toBe( false );
+				for( let i = 1; i < states.length; i++ ) { expect( tree.redo().values ).toEqual( states[ i ] ) }
+				expect( tree.canRedo ).toBe( false );
+				tree.cleanup().rotate();
+			} );
+			test( 'publishes the undo event', () => {
+				const undoSpy = jest.fn();
+				tree.on( 'undo', undoSpy );
+				tree.insert( 40 ).undo();
+				expect( undoSpy ).toHaveBeenCalledTimes( 1 );
+			} );
+		} );
+		describe( 'union(...)', () => {
+			test( 'returns a new tree holding values found in either tree', () => {
+				const tree = new Tree([ 1, 2, 3, 4, 5 ]);
+				const result = tree.union( new Tree([ 4, 5, 6, 7 ]) );
+				expect( result.values ).toStrictEqual([ 1, 2, 3, 4, 5, 6, 7 ]);
+				expect( tree.values ).toStrictEqual([ 1, 2, 3, 4, 5 ]);
+			} );
+			test( 'returns a balanced tree sharing this tree\'s options', () => {
+				const isValueBefore = ( value : number, node : TreeNode<number> ) => value > node.value;
+				const tree = new Tree([ 5, 3, 1 ], { isValueBefore, rebalance: 'manual' });
+				const result = tree.union( new Tree([ 6, 4, 2 ], { isValueBefore }) );
+				expect( result.values ).toStrictEqual([ 6, 5, 4, 3, 2, 1 ]);
+				expect( result.isValueBefore ).toBe( isValueBefore );
+				expect( result.rebalance ).toBe( 'manual' );
+				expect( result.getLevels() ).toHaveLength( 3 );
+			} );
+			test( 'keeps the greater duplicate value counts', () => {
+				const tree = new Tree([ 1, 2, 2, 2, 3 ], { allowDuplicates: true });
+				const result = tree.union( new Tree([ 2, 2, 4, 4 ], { allowDuplicates: true }) );
+				expect( result.values ).toStrictEqual([ 1, 2, 2, 2, 3, 4, 4 ]);
+			} );
+			test( 'dedupes values of the other tree when this tree disallows duplicates', () => {
+				const tree = new Tree([ 1, 2 ]);
+				const result = tree.union( new Tree([ 2, 2, 3, 3 ], { allowDuplicates: true }) );
+				expect( result.values ).toStrictEqual([ 1, 2, 3 ]);
+			} );
+			test( 'inserts the added values within one transaction when applied in place', () => {
+				const tree = new Tree([ 1, 3, 5 ]);
+				const onCommit = jest.fn();
+				tree.on( 'commit', onCommit );
+				expect( tree.union( new Tree([ 2, 3, 4 ]), { inPlace: true }) ).toBe( tree );
+				expect( tree.values ).toStrictEqual([ 1, 2, 3, 4, 5 ]);
+				expect( onCommit ).toHaveBeenCalledTimes( 1 );
+				expect( onCommit.mock.calls[ 0 ][ 0 ].map(({ type }) => type ) ).toStrictEqual([ 'insert', 'insert' ]);
+				tree.cleanup().rotate();
+			} );
+			test( 'throws Error on trees with differing criteria', () => {
+				const t = () => new Tree([ 1 ]).union( new Tree([ 1 ], { isValueBefore: ( a, { value } ) => a > value }) );
+				expect( t ).toThrow( Error );
+				expect( t ).toThrow( Tree.CRITERIA_MISMATCH_MESSAGE );
+			} );
+		} );
+		describe( 'upperBound(...)', () => {
+			const tree = new Tree([ 0, 3, 6, 9 ]);
+			test.each([
+				[ -2, 0 ], [ 0, 1 ], [ 2, 1 ], [ 3, 2 ], [ 7, 3 ], [ 9, 4 ], [ 12, 4 ]
+			])( 'returns index of the first node sorted after %d: %d', ( value, index ) => {
+				expect( tree.upperBound( value ) ).toBe( index );
+			} );
+			test( 'returns 0 on an empty tree', () => {
+				expect(( new Tree<number>() ).upperBound( 2 )).toBe( 0 );
+			} );
 		} );
 	} );
 	describe( 'tree node', () => {
@@ -1290,6 +3171,15 @@ describe( 'Tree', () => {
 						expect( children[ 1 ].value ).toBe( 3 )
 					} );
 				} );
+				describe( 'depth', () => {
+					test( 'returns node\'s number of ancestors', () => {
+						expect( node.depth ).toBe( 2 );
+						expect( tree.getNodeAt( 7 ).depth ).toBe( 0 );
+					} );
+					test( 'returns -1 for a detached node', () => {
+						expect( new Tree([ 1 ]).getNodeAt( 0 ).detach().depth ).toBe( -1 );
+					} );
+				} );
 				describe( 'index', () => {
 					test( 'returns node\'s (l-t-r inorder) index positioning on the tree', () => {
 						expect( node.index ).toBe( 1 );
@@ -1310,11 +3200,44 @@ describe( 'Tree', () => {
 						expect( node.isFree ).toBe( false );
 					} );
 				} );
+				describe( 'isLeaf', () => {
+					test( 'returns node\'s information on whether it has no children', () => {
+						expect( node.isLeaf ).toBe( false );
+						expect( node.left.isLeaf ).toBe( true );
+					} );
+					test( 'returns false for a detached node', () => {
+						expect( new Tree([ 1 ]).getNodeAt( 0 ).detach().isLeaf ).toBe( false );
+					} );
+				} );
 				describe( 'left', () => {
 					test( 'returns node\'s left child node', () => {
 						expect( node.left.value ).toBe( 1 );
 					} );
 				} );
+				describe( 'next', () => {
+					test( 'returns node\'s in-order successor', () => {
+						expect( node.next.value ).toBe( 3 );
+						expect( node.right.next.value ).toBe( 4 );
+					} );
+					test( 'returns null for the last node', () => {
+						expect( tree.getNodeAt( -1 ).next ).toBeNull();
+					} );
+					test( 'returns null for a detached node', () => {
+						expect( new Tree([ 1, 2 ]).getNodeAt( 0 ).detach().next ).toBeNull();
+					} );
+				} );
+				describe( 'prev', () => {
+					test( 'returns node\'s in-order predecessor', () => {
+						expect( node.prev.value ).toBe( 1 );
+						expect( node.root.prev.value ).toBe( 3 );
+					} );
+					test( 'returns null for the first node', () => {
+						expect( tree.getNodeAt( 0 ).prev ).toBeNull();
+					} );
+					test( 'returns null for a detached node', () => {
+						expect( new Tree([ 1, 2 ]).getNodeAt( 1 ).detach().prev ).toBeNull();
+					} );
+				} );
 				describe( 'right', () => {
 					test( 'returns node\'s right child node', () => {
 						expect( node.right.value ).toBe( 3 );
@@ -1325,6 +3248,43 @@ describe( 'Tree', () => {
 						expect( node.root.value ).toBe( 4 );
 					} );
 				} );
+				describe( 'sibling', () => {
+					test( 'returns the other child of node\'s root', () => {
+						expect( node.sibling.value ).toBe( 6 );
+						expect( node.left.sibling.value ).toBe( 3 );
+					} );
+					test( 'returns null for the tree root', () => {
+						expect( tree.getNodeAt( 7 ).sibling ).toBeNull();
+					} );
+				} );
+				describe( 'subtreeHeight', () => {
+					test( 'returns number of levels in the subtree rooted at node', () => {
+						expect( node.subtreeHeight ).toBe( 2 );
+						expect( node.left.subtreeHeight ).toBe( 1 );
+						expect( tree.getNodeAt( 7 ).subtreeHeight ).toBe( 4 );
+					} );
+					test( 'returns 0 for a detached node', () => {
+						expect( new Tree([ 1 ]).getNodeAt( 0 ).detach().subtreeHeight ).toBe( 0 );
+					} );
+				} );
+				describe( 'navigation across a pending rotation', () => {
+					test( 'reflects the height-balanced links without forcing the rotation', () => {
+						const tree = new Tree([ 1, 2, 3 ]);
+						const rotateSpy = jest.spyOn( tree, 'rotate' );
+						tree.insert( 4 );
+						tree.insert( 5 );
+						const node = tree.getNodeAt( 3 );
+						expect( node.depth ).toBe( 1 );
+						expect( node.subtreeHeight ).toBe( 2 );
+						expect( node.left.sibling ).toBe( node.right );
+						expect( node.root.value ).toBe( 2 );
+						expect( node.next.value ).toBe( 5 );
+						expect( node.prev.value ).toBe( 3 );
+						expect( rotateSpy ).not.toHaveBeenCalled();
+						rotateSpy.mockRestore();
+						tree.cleanup().rotate();
+					} );
+				} );
 				describe( 'tree', () => {
 					test( "returns node's associated tree", () => {
 						expect( node.tree ).toBe( tree );
@@ -1494,6 +3454,32 @@ describe( 'Tree', () => {
 					treeRemoveNodeSpy.mockRestore();
 				} );
 			} );
+			describe( 'distanceTo(...)', () => {
+				test.each([
+					[ 3, 13, 6 ], [ 13, 3, 6 ], [ 4, 5, 2 ], [ 8, 1, 3 ], [ 7, 7, 0 ]
+				])( 'returns number of links between nodes %d and %d: %d', ( value, otherValue, distance ) => {
+					expect( tree.getNodeAt( value - 1 ).distanceTo( tree.getNodeAt( otherValue - 1 ) ) ).toBe( distance );
+				} );
+				test( 'returns -1 if either node is detached', () => {
+					const tree = new Tree([ 1, 2, 3 ]);
+					const node = tree.getNodeAt( 1 );
+					const detachedNode = tree.getNodeAt( 2 ).detach();
+					expect( node.distanceTo( detachedNode ) ).toBe( -1 );
+					expect( detachedNode.distanceTo( node ) ).toBe( -1 );
+					tree.cleanup().rotate();
+				} );
+				test( 'throws TypeError on invalid node', () => {
+					// @ts-ignore
+					const t = () => tree.getNodeAt( 0 ).distanceTo( null );
+					expect( t ).toThrow( TypeError );
+					expect( t ).toThrow( Tree.INVALID_NODE_MESSAGE );
+				} );
+				test( 'throws ReferenceError on node from another tree', () => {
+					const t = () => tree.getNodeAt( 0 ).distanceTo( new Tree([ 1 ]).getNodeAt( 0 ) );
+					expect( t ).toThrow( ReferenceError );
+					expect( t ).toThrow( Tree.TREE_MISMATCH_MESSAGE );
+				} );
+			} );
 			describe( 'free(...)', () => {
 				let preFreeState = {} as State<number>;
 				let postFreeState = {} as State<number>;
@@ -1709,3 +3695,544 @@ describe( 'Tree', () => {
 		} );
 	} );
 } );
+describe( 'TreeCursor', () => {
+	let tree : Tree<number>;
+	beforeEach(() => { tree = new Tree([ 10, 20, 30, 40, 50 ]) });
+	afterEach(() => {
+		tree.cleanup().rotate();
+		tree = null;
+	});
+	describe( 'constructor', () => {
+		test( 'throws TypeError on invalid tree', () => {
+			// @ts-ignore
+			const t = () => new TreeCursor([ 1 ]);
+			expect( t ).toThrow( TypeError );
+			expect( t ).toThrow( 'Invalid `tree` argument supplied. Tree expected.' );
+		} );
+		test( 'starts past the end of an empty tree', () => {
+			const cursor = new TreeCursor( new Tree<number>() );
+			expect( cursor.current ).toBeNull();
+			expect( cursor.prev() ).toBeNull();
+			expect( cursor.next() ).toBeNull();
+		} );
+	} );
+	describe( 'navigation', () => {
+		test( 'walks the nodes in both directions', () => {
+			const cursor = tree.cursor( 30 );
+			expect( cursor.next().value ).toBe( 40 );
+			expect( cursor.next().value ).toBe( 50 );
+			expect( cursor.next() ).toBeNull();
+			expect( cursor.current ).toBeNull();
+			expect( cursor.prev().value ).toBe( 50 );
+			expect( cursor.prev().value ).toBe( 40 );
+		} );
+		test( 'reenters from before the start', () => {
+			const cursor = tree.cursor( 10 );
+			expect( cursor.prev() ).toBeNull();
+			expect( cursor.prev() ).toBeNull();
+			expect( cursor.next().value ).toBe( 10 );
+		} );
+		test( 'stays anchored to its node across inserts and removals', () => {
+			const cursor = tree.cursor( 30 );
+			const node = cursor.current;
+			tree.insert( 35 );
+			tree.insert( 5 );
+			tree.remove( 20 );
+			expect( cursor.current ).toBe( node );
+			expect( cursor.next().value ).toBe( 35 );
+			expect( cursor.prev().value ).toBe( 30 );
+			expect( cursor.prev().value ).toBe( 10 );
+			tree.rotate();
+			expect( cursor.next().value ).toBe( 30 );
+		} );
+		test( 'follows its node when the node value changes', () => {
+			const cursor = tree.cursor( 20 );
+			cursor.current.value = 45;
+			expect( cursor.next().value ).toBe( 50 );
+			expect( cursor.prev().value ).toBe( 45 );
+			expect( cursor.prev().value ).toBe( 40 );
+		} );
+	} );
+	describe( 'detachment', () => {
+		test.each([
+			[ 'detached', ( node : TreeNode<number> ) => { node.detach() } ],
+			[ 'freed', ( node : TreeNode<number> ) => { node.free() } ],
+			[ 'moved to another tree', ( node : TreeNode<number> ) => { node.tree.splitAt({ index: 0 }) } ]
+		])( 'reports a current node %s', ( _, detach ) => {
+			const cursor = tree.cursor( 30 );
+			expect( cursor.isDetached ).toBe( false );
+			detach( cursor.current );
+			expect( cursor.isDetached ).toBe( true );
+			expect( cursor.current.value ).toBe( 30 );
+			for( const move of [ () => cursor.next(), () => cursor.prev() ] ) {
+				expect( move ).toThrow( ReferenceError );
+				expect( move ).toThrow( TreeCursor.DETACHED_NODE_MESSAGE );
+			}
+		} );
+		test( 'recovers through seek', () => {
+			const cursor = tree.cursor( 30 );
+			cursor.current.detach();
+			expect( cursor.seek( 30 ).value ).toBe( 40 );
+			expect( cursor.isDetached ).toBe( false );
+			expect( cursor.prev().value ).toBe( 20 );
+		} );
+		test( 'does not report a cursor past either end', () => {
+			const cursor = tree.cursor( 60 );
+			expect( cursor.isDetached ).toBe( false );
+		} );
+	} );
+	describe( 'seek(...)', () => {
+		test.each([
+			[ 5, 10 ], [ 20, 20 ], [ 25, 30 ], [ 60, null ]
+		])( 'positions the cursor at the first node not sorted before %d', ( value, expected ) => {
+			const cursor = tree.cursor();
+			expect( cursor.seek( value )?.value ?? null ).toBe( expected );
+			expect( cursor.current?.value ?? null ).toBe( expected );
+		} );
+		test( 'moves to the last node from past the end', () => {
+			const cursor = tree.cursor();
+			cursor.seek( 60 );
+			expect( cursor.prev().value ).toBe( 50 );
+		} );
+	} );
+} );
+describe( 'PersistentTree', () => {
+	const isBalanced = ( node : PersistentNode<number> ) : boolean => node === null || (
+		Math.abs( ( node.left?.height ?? 0 ) - ( node.right?.height ?? 0 ) ) < 2 &&
+		isBalanced( node.left ) &&
+		isBalanced( node.right )
+	);
+	describe( 'constructor', () => {
+		test( 'sorts and dedupes values', () => {
+			const tree = new PersistentTree([ 5, 3, 9, 3, 1 ]);
+			expect( tree.values ).toEqual([ 1, 3, 5, 9 ]);
+			expect( tree.size ).toBe( 4 );
+		} );
+		test( 'keeps duplicates in multiset mode', () => {
+			expect( new PersistentTree([ 5, 3, 3 ], { allowDuplicates: true }).values ).toEqual([ 3, 3, 5 ]);
+		} );
+		test( 'throws TypeError on invalid arguments', () => {
+			// @ts-ignore
+			expect(() => new PersistentTree( 5 ) ).toThrow( TypeError );
+			// @ts-ignore
+			expect(() => new PersistentTree( [], { isValueBefore: 5 } ) ).toThrow( TypeError );
+		} );
+	} );
+	describe( 'insert(...)', () => {
+		test( 'returns a new version leaving the original intact', () => {
+			const tree = new PersistentTree([ 1, 2, 3 ]);
+			const next = tree.insert( 4 );
+			expect( next ).not.toBe( tree );
+			expect( next.values ).toEqual([ 1, 2, 3, 4 ]);
+			expect( tree.values ).toEqual([ 1, 2, 3 ]);
+		} );
+		test( 'shares untouched subtrees between versions', () => {
+			const tree = new PersistentTree([ 1, 2, 3, 4, 5, 6, 7 ]);
+			const next = tree.insert( 8 );
+			expect( next.root.left ).toBe( tree.root.left );
+			expect( next.root.right ).not.toBe( tree.root.right );
+		} );
+		test( 'returns this version for an existing value', () => {
+			const tree = new PersistentTree([ 1, 2, 3 ]);
+			expect( tree.insert( 2 ) ).toBe( tree );
+			expect( new PersistentTree([ 1, 2, 3 ], { allowDuplicates: true }).insert( 2 ).values ).toEqual([ 1, 2, 2, 3 ]);
+		} );
+		test( 'yields frozen nodes', () => {
+			const node = new PersistentTree<number>().insert( 1 ).getNodeAt( 0 );
+			expect( Object.isFrozen( node ) ).toBe( true );
+		} );
+	} );
+	describe( 'remove(...)', () => {
+		test( 'returns a new version leaving the original intact', () => {
+			const tree = new PersistentTree([ 1, 2, 3 ]);
+			const next = tree.remove( 2 );
+			expect( next.values ).toEqual([ 1, 3 ]);
+			expect( tree.values ).toEqual([ 1, 2, 3 ]);
+		} );
+		test( 'returns this version for a missing value', () => {
+			const tree = new PersistentTree([ 1, 2, 3 ]);
+			expect( tree.remove( 4 ) ).toBe( tree );
+		} );
+	} );
+	describe( 'under random inserts and removals', () => {
+		test( 'stays balanced and in sync with a mutable tree', () => {
+			let seed = 7;
+			const random = () => ( seed = seed * 16807 % 2147483647 ) % 200;
+			const versions = [ new PersistentTree<number>() ];
+			const tree = new Tree<number>();
+			for( let i = 0; i < 500; i++ ) {
+				const value = random();
+				const current = versions[ versions.length - 1 ];
+				if( i % 3 === 2 ) {
+					versions.push( current.remove( value ) );
+					tree.remove( value );
+				} else {
+					versions.push( current.insert( value ) );
+					tree.insert( value );
+				}
+			}
+			const latest = versions[ versions.length - 1 ];
+			expect( latest.values ).toEqual( tree.values );
+			expect( isBalanced( latest.root ) ).toBe( true );
+			expect( versions[ 1 ].size ).toBe( 1 );
+			tree.cleanup().rotate();
+		} );
+	} );
+	describe( 'read methods', () => {
+		const tree = new PersistentTree([ 10, 20, 30, 40, 50 ]);
+		test( 'getNodeAt(...) accepts negative indexes', () => {
+			expect( tree.getNodeAt( 1 ).value ).toBe( 20 );
+			expect( tree.getNodeAt( -1 ).value ).toBe( 50 );
+			expect( tree.getNodeAt( 5 ) ).toBeUndefined();
+		} );
+		test( 'indexOf(...) finds matching values', () => {
+			expect( tree.indexOf( 40 ) ).toBe( 3 );
+			expect( tree.indexOf( 45 ) ).toBe( -1 );
+		} );
+		test( 'indexOf(...) searches within the start and end range', () => {
+			expect( tree.indexOf( 40, 1, 3 ) ).toBe( 3 );
+			expect( tree.indexOf( 40, -2 ) ).toBe( 3 );
+			expect( tree.indexOf( 40, 0, 2 ) ).toBe( -1 );
+			expect( tree.indexOf( 20, 2 ) ).toBe( -1 );
+			expect( tree.indexOf( 20, 5 ) ).toBe( -1 );
+			expect( tree.indexOf( 30, 2, 0 ) ).toBe( 2 );
+			const duplicates = new PersistentTree([ 1, 2, 2, 2, 3 ], { allowDuplicates: true });
+			expect( duplicates.indexOf( 2, 2 ) ).toBe( 2 );
+			expect( duplicates.indexOf( 2, -2, 10 ) ).toBe( 3 );
+		} );
+		test( 'genTraversal(...) honors direction, start and maxLength', () => {
+			const values = ( options ) => Array.from( tree.genTraversal( options ), ({ value }) => value );
+			expect( values( undefined ) ).toEqual([ 10, 20, 30, 40, 50 ]);
+			expect( values({ start: 1, maxLength: 3 }) ).toEqual([ 20, 30, 40 ]);
+			expect( values({ direction: TraversalDirection.LEFT }) ).toEqual([ 50, 40, 30, 20, 10 ]);
+			expect( values({ direction: TraversalDirection.LEFT, start: -2, maxLength: 2 }) ).toEqual([ 40, 30 ]);
+		} );
+		test( 'genTraversal(...) throws on unsupported orders', () => {
+			expect(() => tree.genTraversal({ order: TraversalOrder.PRE }).next() ).toThrow(
+				'Unsupported `order` option supplied to `genTraversal` method. Only `TraversalOrder.IN` is supported by the PersistentTree.'
+			);
+		} );
+		test( 'is iterable', () => {
+			expect([ ...tree ]).toEqual([ 10, 20, 30, 40, 50 ]);
+		} );
+	} );
+	describe( 'conversion', () => {
+		const options = {
+			isSameValue: ( a : { id : number }, node ) => a.id === node.value.id,
+			isValueBefore: ( a : { id : number }, node ) => a.id < node.value.id
+		};
+		test( 'fromTree(...) copies values and criteria', () => {
+			const tree = new Tree([{ id: 2 }, { id: 1 }], { ...options, allowDuplicates: true });
+			const persistentTree = PersistentTree.fromTree( tree );
+			expect( persistentTree.values ).toEqual([{ id: 1 }, { id: 2 }]);
+			expect( persistentTree.allowDuplicates ).toBe( true );
+			expect( persistentTree.indexOf({ id: 2 }) ).toBe( 1 );
+			tree.cleanup().rotate();
+		} );
+		test( 'fromTree(...) runs copied criteria against tree nodes', () => {
+			const isValueBefore = jest.fn(( a : number, node ) => a < node.value );
+			const tree = new Tree([ 2, 1 ], { isValueBefore });
+			const persistentTree = PersistentTree.fromTree( tree );
+			isValueBefore.mockClear();
+			expect( persistentTree.insert( 3 ).values ).toEqual([ 1, 2, 3 ]);
+			expect( isValueBefore ).toHaveBeenCalled();
+			for( const [ , node, criterionTree ] of isValueBefore.mock.calls ) {
+				expect( node ).toBeInstanceOf( TreeNode );
+				expect( node.tree ).toBe( tree );
+				expect( criterionTree ).toBe( tree );
+			}
+			tree.cleanup().rotate();
+		} );
+		test( 'fromTree(...) and toTree(...) keep the key option', () => {
+			const key = ({ id } : { id : number }) => id;
+			const tree = new Tree([{ id: 2 }, { id: 1 }], { key });
+			const persistentTree = PersistentTree.fromTree( tree ).insert({ id: 0 });
+			expect( persistentTree.key ).toBe( key );
+			expect( persistentTree.indexOf({ id: 2 }) ).toBe( 2 );
+			expect( persistentTree.toTree().getByKey( 1 ) ).toEqual({ id: 1 });
+			tree.cleanup().rotate();
+		} );
+		test( 'fromTree(...) and toTree(...) keep the strictOrder option', () => {
+			const tree = new Tree([ new Date( 2e3 ), new Date( 1e3 ) ], { strictOrder: true });
+			const persistentTree = PersistentTree.fromTree( tree );
+			expect( persistentTree.strictOrder ).toBe( true );
+			// @ts-ignore
+			expect(() => persistentTree.insert( 1 ) ).toThrow( 'Cannot order Number and Date values under the default criteria.' );
+			expect( persistentTree.toTree().strictOrder ).toBe( true );
+			tree.cleanup().rotate();
+		} );
+		test( 'fromTree(...) and toTree(...) keep the comparator option', () => {
+			const comparator = ( a : number, b : number ) => b - a;
+			const tree = new Tree([ 1, 3 ], { comparator });
+			const persistentTree = PersistentTree.fromTree( tree ).insert( 2 );
+			expect( persistentTree.comparator ).toBe( comparator );
+			expect( persistentTree.values ).toEqual([ 3, 2, 1 ]);
+			expect( persistentTree.toTree().comparator ).toBe( comparator );
+			tree.cleanup().rotate();
+		} );
+		test( 'fromTree(...) throws TypeError on invalid tree', () => {
+			// @ts-ignore
+			expect(() => PersistentTree.fromTree([ 1 ]) ).toThrow( 'Invalid `tree` argument supplied. Tree expected.' );
+		} );
+		test( 'toTree(...) copies values and criteria into a mutable tree', () => {
+			const tree = new PersistentTree([{ id: 2 }, { id: 1 }], options ).toTree();
+			expect( tree ).toBeInstanceOf( Tree );
+			expect( tree.values ).toEqual([{ id: 1 }, { id: 2 }]);
+			expect( tree.indexOf({ id: 2 }) ).toBe( 1 );
+			tree.cleanup().rotate();
+		} );
+		test( 'toTree(...) runs copied criteria against persistent nodes', () => {
+			const isValueBefore = jest.fn(( a : number, node ) => a < node.value );
+			const persistentTree = new PersistentTree([ 2, 1 ], { isValueBefore });
+			const tree = persistentTree.toTree();
+			isValueBefore.mockClear();
+			expect( tree.insert( 3 ).values ).toEqual([ 1, 2, 3 ]);
+			expect( isValueBefore ).toHaveBeenCalled();
+			for( const [ , node, criterionTree ] of isValueBefore.mock.calls ) {
+				expect( node ).not.toBeInstanceOf( TreeNode );
+				expect( node.size ).toBe( 1 );
+				expect( criterionTree ).toBe( persistentTree );
+			}
+			tree.cleanup().rotate();
+		} );
+	} );
+} );
+describe( 'TreeSnapshot', () => {
+	let tree : Tree<number>;
+	beforeEach(() => { tree = new Tree([ 10, 20, 30, 40, 50 ]) });
+	afterEach(() => {
+		tree.cleanup().rotate();
+		tree = null;
+	});
+	test( 'throws TypeError on invalid tree', () => {
+		// @ts-ignore
+		const t = () => new TreeSnapshot([ 1 ]);
+		expect( t ).toThrow( TypeError );
+		expect( t ).toThrow( 'Invalid `tree` argument supplied. Tree expected.' );
+	} );
+	test( 'reads through the tree until its next write', () => {
+		const snapshot = tree.snapshot();
+		expect( snapshot.isShared ).toBe( true );
+		expect( snapshot.tree ).toBe( tree );
+		tree.rotate();
+		expect( snapshot.isShared ).toBe( true );
+		tree.insert( 60 );
+		expect( snapshot.isShared ).toBe( false );
+	} );
+	test.each([
+		[ 'inserts', ( tree : Tree<number> ) => { tree.insert( 25 ) } ],
+		[ 'removals', ( tree : Tree<number> ) => { tree.remove( 30 ) } ],
+		[ 'detachments', ( tree : Tree<number> ) => { tree.getNodeAt( 0 ).detach() } ],
+		[ 'in-place node value changes', ( tree : Tree<number> ) => { tree.getNodeAt( 1 ).value = 25 } ],
+		[ 'relocating node value changes', ( tree : Tree<number> ) => { tree.getNodeAt( 1 ).value = 60 } ],
+		[ 'clearing', ( tree : Tree<number> ) => { tree.clear() } ],
+		[ 'resetting values', ( tree : Tree<number> ) => { tree.values = [ 1, 2 ] } ],
+		[ 'criteria changes', ( tree : Tree<number> ) => { tree.isValueBefore = ( a, node ) => a > node.value } ],
+		[ 'splits', ( tree : Tree<number> ) => { tree.splitAt({ index: 2 }) } ]
+	])( 'is unaffected by %s', ( _, write ) => {
+		const snapshot = tree.snapshot();
+		write( tree );
+		expect( snapshot.values ).toEqual([ 10, 20, 30, 40, 50 ]);
+		expect( snapshot.size ).toBe( 5 );
+		expect( snapshot.at( -1 ) ).toBe( 50 );
+		expect( snapshot.indexOf( 30 ) ).toBe( 2 );
+	} );
+	test( 'runs the tree criteria against tree nodes once written to', () => {
+		const criteriaTree = new Tree([ 1, 2, 3 ], {
+			isValueBefore: ( a : number, node, tree ) => {
+				if( node.tree !== tree ) { throw new Error( 'Foreign node' ) }
+				return a < node.value;
+			}
+		});
+		const snapshot = criteriaTree.snapshot();
+		criteriaTree.insert( 4 );
+		expect( snapshot.isShared ).toBe( false );
+		expect( snapshot.indexOf( 2 ) ).toBe( 1 );
+		criteriaTree.cleanup().rotate();
+	} );
+	test( 'is unaffected by writes within a rolled back transaction', () => {
+		const snapshot = tree.snapshot();
+		expect(() => tree.transaction(() => {
+			tree.insert( 5 );
+			throw new Error( 'abort' );
+		}) ).toThrow( 'abort' );
+		expect( snapshot.values ).toEqual([ 10, 20, 30, 40, 50 ]);
+	} );
+	test( 'continues an iteration underway across writes', () => {
+		const snapshot = tree.snapshot();
+		const values = [];
+		for( const value of snapshot ) {
+			values.push( value );
+			tree.insert( value + 5 );
+			tree.remove( value + 10 );
+		}
+		expect( values ).toEqual([ 10, 20, 30, 40, 50 ]);
+		expect( tree.values ).toEqual([ 10, 15, 25, 35, 45, 55 ]);
+	} );
+} );
+describe( 'Ordering', () => {
+	type Person = { age? : number, firstName? : string, lastName? : string };
+	const sort = ( people : Array<Person>, ordering : Ordering<Person> ) => {
+		const tree = new Tree( people, { allowDuplicates: true, comparator: ordering.comparator });
+		tree.cleanup().rotate();
+		return tree.values;
+	};
+	test( 'orders by the extracted key and breaks ties by subsequent keys', () => {
+		const people = [
+			{ age: 30, lastName: 'Bo' },
+			{ age: 25, lastName: 'Al' },
+			{ age: 40, lastName: 'Bo' },
+			{ age: 35, lastName: 'Al' }
+		];
+		expect( sort( people, Tree.by( p => p.lastName ).thenBy( p => p.age, 'desc' ) ) ).toEqual([
+			{ age: 35, lastName: 'Al' },
+			{ age: 25, lastName: 'Al' },
+			{ age: 40, lastName: 'Bo' },
+			{ age: 30, lastName: 'Bo' }
+		]);
+	} );
+	test( 'keeps its criteria in agreement', () => {
+		const ordering = Tree.by(( p : Person ) => p.lastName ).thenBy( p => p.age );
+		const tree = new Tree<Person>( [], ordering );
+		const node = tree.insert({ age: 1, lastName: 'A' }).getNodeAt( 0 );
+		for( const value of [{ age: 1, lastName: 'A' }, { age: 2, lastName: 'A' }, { age: 0, lastName: 'B' }] ) {
+			const comparison = ordering.comparator( value, node.value );
+			expect( ordering.isSameValue( value, node, tree ) ).toBe( comparison === 0 );
+			expect( ordering.isValueBefore( value, node, tree ) ).toBe( comparison < 0 );
+		}
+		expect( tree.comparator ).toBe( ordering.comparator );
+		expect( tree.insert({ age: 1, lastName: 'A' }).size ).toBe( 1 );
+		tree.cleanup().rotate();
+	} );
+	test( 'places null and undefined keys last unless set first', () => {
+		const people = [{ lastName: 'B' }, { lastName: null }, {}, { lastName: 'A' }];
+		const ordering = Tree.by(( p : Person ) => p.lastName, 'desc' );
+		expect( sort( people, ordering ).map( p => p.lastName ) ).toEqual([ 'B', 'A', null, undefined ]);
+		expect( sort( people, ordering.nullsLast() ).map( p => p.lastName ) ).toEqual([ 'B', 'A', null, undefined ]);
+		expect( sort( people, ordering.nullsFirst() ).map( p => p.lastName ) ).toEqual([ null, undefined, 'B', 'A' ]);
+	} );
+	test( 'applies nullsFirst() to the last key only', () => {
+		const people = [{ age: 1 }, { age: 1, lastName: 'A' }, { lastName: 'A' }];
+		const ordering = Tree.by(( p : Person ) => p.lastName ).thenBy( p => p.age ).nullsFirst();
+		expect( sort( people, ordering ) ).toEqual([{ lastName: 'A' }, { age: 1, lastName: 'A' }, { age: 1 }]);
+	} );
+	test( 'orders keys by a collator', () => {
+		const people = [{ lastName: 'Zoe' }, { lastName: 'Äpfel' }, { lastName: 'apfel' }, { lastName: 'Bach' }];
+		const collator = new Intl.Collator( 'de', { sensitivity: 'base' } );
+		expect( sort( people, Tree.by( p => p.lastName, 'asc', collator ) ).map( p => p.lastName ) ).toEqual([
+			'Äpfel', 'apfel', 'Bach', 'Zoe'
+		]);
+		const tree = new Tree( people, Tree.by( p => p.lastName, 'asc', collator ) );
+		expect( tree.size ).toBe( 3 );
+		tree.cleanup().rotate();
+	} );
+	test( 'is immutable', () => {
+		const ordering = Tree.by(( p : Person ) => p.age );
+		const comparator = ordering.comparator;
+		expect( ordering.thenBy( p => p.lastName ) ).not.toBe( ordering );
+		expect( ordering.nullsFirst() ).not.toBe( ordering );
+		expect( comparator({ age: 1 }, {}) ).toBe( -1 );
+		expect( ordering.comparator ).toBe( comparator );
+	} );
+	test( 'throws TypeError on invalid arguments', () => {
+		// @ts-ignore
+		expect(() => Tree.by( 'age' ) ).toThrow( 'Invalid `extract` argument supplied. Function expected.' );
+		// @ts-ignore
+		expect(() => Tree.by( p => p, 'up' ) ).toThrow( 'Invalid `direction` argument supplied. \'asc\' or \'desc\' expected.' );
+		// @ts-ignore
+		expect(() => Tree.by( p => p ).thenBy( p => p, 'asc', 'de' ) ).toThrow(
+			'Invalid `collator` argument supplied. Intl.Collator expected or leave it unset.'
+		);
+	} );
+} );
+describe( 'AutoBSTMap', () => {
+	const entries : Array<[ number, string ]> = [ [ 3, 'c' ], [ 1, 'a' ], [ 4, 'd' ], [ 2, 'b' ] ];
+	let map : AutoBSTMap<number, string>;
+	beforeEach(() => { map = new AutoBSTMap( entries ) });
+	afterEach(() => { map = null });
+	describe( 'constructor', () => {
+		test( 'creates an empty map by default', () => {
+			expect(( new AutoBSTMap() ).size ).toBe( 0 );
+		} );
+		test( 'keeps the last value of repeated keys', () => {
+			const map = new AutoBSTMap([ [ 1, 'a' ], [ 1, 'z' ] ]);
+			expect( map.size ).toBe( 1 );
+			expect( map.get( 1 ) ).toBe( 'z' );
+		} );
+		test( 'accepts custom key criteria', () => {
+			const map = new AutoBSTMap<{ id: number }, string>([
+				[ { id: 2 }, 'b' ], [ { id: 1 }, 'a' ]
+			], {
+				isKeyBefore: ( k, o ) => k.id < o.id,
+				isSameKey: ( k, o ) => k.id === o.id
+			} );
+			expect([ ...map.values() ]).toStrictEqual([ 'a', 'b' ]);
+			expect( map.get({ id: 2 }) ).toBe( 'b' );
+		} );
+		test( 'throws on non-function key criteria', () => {
+			// @ts-ignore
+			expect(() => new AutoBSTMap( [], { isSameKey: 2 } )).toThrow( TypeError );
+		} );
+	} );
+	describe( 'properties', () => {
+		test( 'size', () => { expect( map.size ).toBe( entries.length ) } );
+		test( 'tree', () => {
+			expect( Tree.isValid( map.tree ) ).toBe( true );
+			expect( map.tree.values ).toStrictEqual([
+				{ key: 1, value: 'a' },
+				{ key: 2, value: 'b' },
+				{ key: 3, value: 'c' },
+				{ key: 4, value: 'd' }
+			]);
+		} );
+	} );
+	describe( 'instance methods', () => {
+		test( '[Symbol.iterator](...)', () => {
+			expect([ ...map ]).toStrictEqual([ [ 1, 'a' ], [ 2, 'b' ], [ 3, 'c' ], [ 4, 'd' ] ]);
+		} );
+		test( 'clear(...)', () => {
+			expect( map.clear() ).toBe( map );
+			expect( map.size ).toBe( 0 );
+		} );
+		test( 'delete(...)', () => {
+			const node = map.tree.getNodeAt( 1 );
+			expect( map.delete( 2 ) ).toBe( true );
+			expect( node.isFree ).toBe( true );
+			expect( map.has( 2 ) ).toBe( false );
+			expect( map.delete( 2 ) ).toBe( false );
+		} );
+		test( 'entries(...)', () => {
+			expect([ ...map.entries() ]).toStrictEqual([ [ 1, 'a' ], [ 2, 'b' ], [ 3, 'c' ], [ 4, 'd' ] ]);
+		} );
+		test( 'get(...)', () => {
+			expect( map.get( 3 ) ).toBe( 'c' );
+			expect( map.get( 7 ) ).toBeUndefined();
+		} );
+		test( 'has(...)', () => {
+			expect( map.has( 3 ) ).toBe( true );
+			expect( map.has( 7 ) ).toBe( false );
+		} );
+		test( 'keys(...)', () => {
+			expect([ ...map.keys() ]).toStrictEqual([ 1, 2, 3, 4 ]);
+		} );
+		describe( 'set(...)', () => {
+			test( 'inserts new keys in order', () => {
+				expect( map.set( 0, 'z' ) ).toBe( map );
+				map.set( 5, 'e' );
+				expect([ ...map.keys() ]).toStrictEqual([ 0, 1, 2, 3, 4, 5 ]);
+			} );
+			test( 'updates values of existing keys without synchronizing the tree', () => {
+				const synchronizeSpy = jest.spyOn( map.tree, 'synchronize' );
+				const node = map.tree.getNodeAt( 2 );
+				map.set( 3, 'C' );
+				expect( map.get( 3 ) ).toBe( 'C' );
+				expect( map.tree.getNodeAt( 2 ) ).toBe( node );
+				expect( synchronizeSpy ).not.toHaveBeenCalled();
+				synchronizeSpy.mockRestore();
+			} );
+		} );
+		test( 'values(...)', () => {
+			expect([ ...map.values() ]).toStrictEqual([ 'a', 'b', 'c', 'd' ]);
+		} );
+	} );
+} );
@@ -1,14 +1,21 @@
 export type DEFAULT_CONSTANT = "__DEFAULT__";
 
+/** Three-way comparison as in `Array.prototype.sort`: negative if `value` comes before `otherValue`, positive if after and 0 if same. */
+export type Comparator<T = unknown> = ( value : T, otherValue : T ) => number;
+
 export type Criterion<T = unknown> = (
     value : T,
     node : TreeNode<T>, 
     tree : Tree<T>
 ) => boolean;
 
-export type NodeInternals = "index" | "isDetached" | "left" | "right" | "root" | "tree";
+export type NodeInternals = "height" | "index" | "isDetached" | "isWatchingTree" | "left" | "right" | "root" | "size" | "tree" | "value";
+
+export type NodeInternalTokensMap = { [ K in NodeInternals ]: symbol };
 
-export type NodeInternalTokensMap = { [ K in NodeInternals ]: number };
+export type TreeInternals = "freezeSnapshots" | "journalNodeState" | "publish" | "recordStep" | "registerSnapshot";
+
+export type TreeInternalTokensMap = { [ K in TreeInternals ]: symbol };
 
 export const enum Transition {
     COMPLETE = 0,
@@ -22,6 +29,34 @@ export type Subscriber = ( ...args : Array<unknown> ) => void;
 /* Unsub function which resolves to true when subscriber found, and false otherwise */
 export type UnsubscribeFn = () => boolean;
 
+/**
+ * Tree mutation event subscribers.
+ * An index of -1 denotes a node not placed in the tree: i.e. a node suspended for holding a duplicate value.
+ */
+export interface TreeEventMap<T = unknown> {
+    clear : ( nodes : Array<TreeNode<T>> ) => void; // nodes discarded in left-to-right in-order sequence
+    commit : ( changes : Array<TreeChange<T>> ) => void; // replaces all other events published during a transaction
+    detach : ( node : TreeNode<T>, oldIndex : number ) => void; // follows the `remove` event of a node remaining associated with the tree
+    free : ( node : TreeNode<T> ) => void; // a detached node disassociated from the tree. Freeing an undetached node publishes `remove` only.
+    insert : ( node : TreeNode<T>, index : number ) => void;
+    join : ( node : TreeNode<T>, index : number ) => void; // follows the `insert` event of a node joining the tree by itself
+    redo : () => void; // follows the reapplication of a history step by `tree.redo()`
+    remove : ( node : TreeNode<T>, oldIndex : number ) => void;
+    rotate : () => void;
+    synchronize : ( node : TreeNode<T>, oldIndex : number, newIndex : number ) => void;
+    undo : () => void; // follows the reversal of a history step by `tree.undo()`
+};
+
+export type TreeEventName = keyof TreeEventMap;
+
+/** A mutation event recorded during a transaction */
+export type TreeChange<T = unknown> = {
+    [ E in Exclude<TreeEventName, 'commit'> ] : {
+        type : E;
+        args : Parameters<TreeEventMap<T>[ E ]>;
+    }
+}[ Exclude<TreeEventName, 'commit'> ];
+
 export const enum TraversalDirection {
     LEFT = 'RTL',
     RIGHT = 'LTR'
@@ -29,6 +64,7 @@ export const enum TraversalDirection {
 
 export const enum TraversalOrder {
     IN = 'IN_ORDER',
+    LEVEL = 'LEVEL_ORDER',
     POST = 'POST_ORDER',
     PRE = 'PRE_ORDER'
 };
@@ -40,48 +76,231 @@ export interface TraversalOptions {
     start? : number; // starts traversal from this index. Index may also accept negative integer which is resolved backward from the end. This value when resolving to a negative is coerced to 0 and coerced to `tree size - 1` when exceeding tree size.
 };
 
+export interface ReduceOptions<R = unknown> extends TraversalOptions {
+    initialValue? : R; // accumulator of the first `cb` call, even when set to `undefined`. Defaults to the first traversed value.
+};
+
+export interface RangeOptions<T = unknown> {
+    direction? : TraversalDirection; //  determines LTR (left-to-right) vs RTL (right-to-left) traversal. Defaults to 'LTR'.
+    from? : T; // lower bound value of the range. Leave it unset for a range open at the start.
+    fromInclusive? : boolean; // includes nodes matching the `from` value. Defaults to true.
+    to? : T; // upper bound value of the range. Leave it unset for a range open at the end.
+    toInclusive? : boolean; // includes nodes matching the `to` value. Defaults to true.
+};
+
+/** Immutable node of a `PersistentTree`. Nodes are shared between tree versions. */
+export interface PersistentNode<T = unknown> {
+    readonly height : number; // number of levels in the subtree rooted at this node
+    readonly left : PersistentNode<T>;
+    readonly right : PersistentNode<T>;
+    readonly size : number; // number of nodes in the subtree rooted at this node
+    readonly value : T;
+};
+
+/** Criterion of a `PersistentTree`: receives a `PersistentNode` as its `node` argument and the `PersistentTree` as its `tree` argument. */
+export type PersistentCriterion<T = unknown> = (
+    value : T,
+    node : PersistentNode<T>,
+    tree : PersistentTree<T>
+) => boolean;
+
+export interface PersistentTreeOptions<T = unknown, K = unknown> {
+    allowDuplicates? : boolean; // keeps values matching existing values (multiset mode) in stable insertion order. Defaults to false.
+    comparator? : Comparator<T>; // replaces the `isSameValue`, `isValueBefore` and `key` options with a single call per comparison. Defaults to none.
+    isSameValue? : PersistentCriterion<T> | DEFAULT_CONSTANT;
+    isValueBefore? : PersistentCriterion<T> | DEFAULT_CONSTANT;
+    key? : ( value : T ) => K; // extracts the part of a value ordered by the default criteria. Defaults to the value itself.
+    strictOrder? : boolean; // throws on comparing values of differing or unorderable types under the default criteria. Defaults to false.
+};
+
+/** Key of an `Ordering`: compares the `extract`ed parts of two values. */
+interface OrderingKey<T> {
+    collator : Intl.Collator;
+    direction : SortDirection;
+    extract : ( value : T ) => unknown;
+    isNullFirst : boolean;
+};
+
+/** Split point of `tree.splitAt(...)`: an in-order index or a value whose lower bound is the index. */
+export type SplitPoint<T = unknown> = { index : number } | { value : T };
+
+/** Callback of the tree iteration helpers: `tree.map(...)` et al. */
+export type IterationCallback<T = unknown, R = unknown> = (
+    value : T,
+    node : TreeNode<T>,
+    tree : Tree<T>
+) => R;
+
 export interface CriteriaOptions<T = unknown> {
     isSameValue? : Criterion<T> | DEFAULT_CONSTANT;
     isValueBefore? : Criterion<T> | DEFAULT_CONSTANT;
 };
 
-export interface TreeOptions<T = unknown> extends CriteriaOptions<T>{}
+export type KeyCriterion<K = unknown> = ( key : K, otherKey : K ) => boolean;
+
+export interface MapEntry<K = unknown, V = unknown> {
+    key : K;
+    value : V;
+};
+
+export interface MapOptions<K = unknown> {
+    isKeyBefore? : KeyCriterion<K> | DEFAULT_CONSTANT; // determines if `key` sorts before `otherKey`. Uses the default `isValueBefore` ordering out of the box.
+    isSameKey? : KeyCriterion<K> | DEFAULT_CONSTANT; // determines if `key` equals `otherKey`. Uses `Object.is()` equality check out of the box, matching dates by time and arrays by elements.
+};
+
+/**
+ * Determines the quantile value when the quantile position falls between two nodes `i` and `j` (`i < j`).
+ * 
+ * - 'higher': value of node `j`.
+ * - 'linear': value of node `i` interpolated toward that of node `j` by the fractional part of the position. Numeric values expected.
+ * - 'lower': value of node `i`.
+ * - 'midpoint': mean of the values of nodes `i` and `j`. Numeric values expected.
+ * - 'nearest': value of the node nearest the position. Ties go to the even index.
+ */
+export type QuantileInterpolation = 'higher' | 'linear' | 'lower' | 'midpoint' | 'nearest';
+
+/** Direction of an `Ordering` key. See `Tree.by(...)`. */
+export type SortDirection = 'asc' | 'desc';
+
+export interface QuantileOptions {
+    interpolation? : QuantileInterpolation; // Defaults to 'linear'.
+};
+
+/**
+ * Options for combining two trees sharing the same criteria. See `Tree.prototype.union(...)` et al.
+ * A new tree is built in linear time. In place, each node added or removed costs O(log n) as in `tree.insert(...)` and `node.free()`.
+ */
+export interface SetOperationOptions {
+    inPlace? : boolean; // applies the result to this tree and returns it. Defaults to false: returns a new tree holding the result.
+};
+
+/** Serialized tree. See `Tree.prototype.toJSON(...)` and `Tree.fromJSON(...)`. */
+export interface TreeJSON<V = unknown> {
+    allowDuplicates : boolean;
+    shape? : Array<number>; // in-order indexes of the tree nodes in pre-order sequence
+    values : Array<V>; // in left-to-right in-order sequence
+};
+
+export interface TreeJSONOptions<T = unknown, V = unknown> {
+    replacer? : ( value : T, index : number ) => V; // transforms each value prior to serialization.
+    shape? : boolean; // includes a snapshot of the current tree shape. Defaults to false.
+};
+
+export interface TreeFromJSONOptions<T = unknown, V = unknown> extends TreeOptions<T> {
+    isSorted? : boolean; // trusts the serialized values to be sorted and deduped under the supplied criteria: skips all comparisons. Defaults to false.
+    reviver? : ( value : V, index : number ) => T; // transforms each deserialized value.
+};
+
+/**
+ * Determines when the tree rebuilds its node links into a complete tree following writes. Each rebuild takes O(n) time.
+ * Node links remain height-balanced in between. Reads never trigger a rebuild.
+ * 
+ * - 'immediate': rebuilds at every write.
+ * - 'manual': rebuilds only through the `rotate()` method.
+ * - 'microtask': rebuilds once at the end of the current job.
+ * - { delay }: rebuilds once `delay` milliseconds past the first write. The timer does not keep the process alive.
+ * - { mutations }: rebuilds at every `mutations`th write.
+ * - { heightFactor }: rebuilds when the tree height exceeds `heightFactor` times log2 of its size.
+ */
+export type RebalancePolicy =
+    | 'immediate'
+    | 'manual'
+    | 'microtask'
+    | { delay : number }
+    | { mutations : number }
+    | { heightFactor : number };
+
+export interface TreeOptions<T = unknown, K = unknown> extends CriteriaOptions<T>{
+    allowDuplicates? : boolean; // keeps values matching existing values (multiset mode) in stable insertion order. Defaults to false.
+    comparator? : Comparator<T>; // replaces the `isSameValue`, `isValueBefore` and `key` options with a single call per comparison. Defaults to none.
+    historyDepth? : number; // number of undoable steps kept. Defaults to 0: no history recorded.
+    key? : ( value : T ) => K; // extracts the part of a value ordered by the default criteria. Defaults to the value itself.
+    rebalance? : RebalancePolicy; // determines when node links are rebuilt into a complete tree. Defaults to `{ delay: 30000 }`.
+    strictOrder? : boolean; // throws on comparing values of differing or unorderable types under the default criteria. Defaults to false.
+}
 
 const CLEANUP_EVENTNAME = 'cleanup';
 
+const DEFAULT_REBALANCE_POLICY : Readonly<RebalancePolicy> = Object.freeze({ delay: 3e4 });
+
 const EMPTY_OBJ = Object.freeze({});
 
+const QUANTILE_INTERPOLATIONS : Readonly<Array<QuantileInterpolation>> = Object.freeze([
+    'higher', 'linear', 'lower', 'midpoint', 'nearest'
+]);
+
+const EVENT_NAMES : Readonly<Array<TreeEventName>> = Object.freeze([
+    'clear', 'commit', 'detach', 'free', 'insert', 'join', 'redo', 'remove', 'rotate', 'synchronize', 'undo'
+]);
+
 const NODE_INTERNALS : Readonly<Array<NodeInternals>> = Object.freeze([
-    'index', 'isDetached', 'left', 'right', 'root', 'tree'
+    'height', 'index', 'isDetached', 'isWatchingTree', 'left', 'right', 'root', 'size', 'tree', 'value'
+]);
+
+const NODE_TOKENS : Readonly<NodeInternalTokensMap> = Object.freeze( createInternalTokens( NODE_INTERNALS ) );
+
+const TREE_INTERNALS : Readonly<Array<TreeInternals>> = Object.freeze([
+    'freezeSnapshots', 'journalNodeState', 'publish', 'recordStep', 'registerSnapshot'
 ]);
 
-const nodeAccessMap = new WeakMap<TreeNode, NodeInternalTokensMap>();
+const TREE_TOKENS : Readonly<TreeInternalTokensMap> = Object.freeze( createInternalTokens( TREE_INTERNALS ) );
+
+/** Snapshot awaiting the copy of its tree values ahead of the next write to its tree. */
+interface PendingSnapshot<T = unknown> {
+    setCopy : ( copy : PersistentTree<T> ) => void;
+    snapshot : TreeSnapshot<T>;
+};
+
+interface Journal<T = unknown> {
+    changes : Array<TreeChange<T>>;
+    isReplaying : boolean;
+    undos : Array<() => void>;
+};
+
+/** Undo log of the writes of a tree grouped into steps. Every undo records its own reversal while replayed. */
+interface History {
+    depth : number;
+    /** is set while the step underway is to be dropped */
+    isDiscarding : boolean;
+    /** nesting level of the writes grouped into the step underway */
+    level : number;
+    redos : Array<Array<() => void>>;
+    /** undos of the step underway in the order recorded */
+    step : Array<() => void>;
+    undos : Array<Array<() => void>>;
+};
+
+/** Thrown on resuming a traversal of a tree structurally modified since the traversal began. */
+export class ConcurrentModificationError extends Error {
+    constructor( message = 'Cannot resume a traversal of a tree structurally modified since the traversal began.' ) {
+        super( message );
+        this.name = 'ConcurrentModificationError';
+    }
+}
 
+/**
+ * Holds its subscriptions strongly: a subscription map reachable only through a `WeakRef`
+ * may be garbage collected at any time, silently dropping every subscription with it.
+ */
 class Publisher {
-    private _subscriptionMapRef = new WeakRef<{
+    private _subscriptionMap : {
         [eventName: string]: Set<Subscriber>
-    }>({});
+    } = {};
 
-    private get _subsMap() { return this._subscriptionMapRef?.deref() }
+    private get _subsMap() { return this._subscriptionMap }
 
     cleanup() {
-        try {
-            for( const evtName in this._subsMap ) {
-                this._subsMap[ evtName ] = null;
-            }
-        } catch( e ) {
-            /* istanbul ignore next */
-            if( !( e instanceof ReferenceError ) ) { throw e }
-        } finally {
-            return this;
+        for( const evtName in this._subsMap ) {
+            this._subsMap[ evtName ] = null;
         }
+        return this;
     }
 
     publish(
         eventName : string,
         ...args : Array<unknown>
     ) {
-        this._subsMap?.[ eventName ]?.forEach( fn => fn( ...args ) );
+        this._subsMap[ eventName ]?.forEach( fn => fn( ...args ) );
         return this;
     }
 
@@ -89,65 +308,33 @@ class Publisher {
         eventName : string,
         subscriber : Subscriber
     ) : UnsubscribeFn{
-        try {
-            if( !this._subsMap[ eventName ] ) {
-                this._subsMap[ eventName ] = new Set();
-            }
-            this._subsMap[ eventName ].add( subscriber );
-            return () => this._subsMap?.[ eventName ]?.delete( subscriber );
-        } catch( e ) { 
-            /* istanbul ignore next */
-            if( !( e instanceof ReferenceError ) ) { throw e }
+        if( !this._subsMap[ eventName ] ) {
+            this._subsMap[ eventName ] = new Set();
         }
+        this._subsMap[ eventName ].add( subscriber );
+        return () => this._subsMap[ eventName ]?.delete( subscriber );
     }
 }
 
 export class TreeNode<T = unknown> {
+    /** height of the subtree rooted at this node. Is 0 while this node is not linked into its tree. */
+    private _height : number = 0;
     private _index : number;
     private _isDetached : boolean = false;
     private _left : TreeNode<T> = null;
     private _right : TreeNode<T> = null;
     private _root : TreeNode<T> = null;
+    /** number of nodes in the subtree rooted at this node. Is 0 while this node is not linked into its tree. */
+    private _size : number = 0;
     private _transition : Transition = Transition.COMPLETE;
     private _treeRef : WeakRef<Tree<T>> = null;
     private _unsubTreeCleanup : UnsubscribeFn = null;
     private _value : T;
 
-    static dynammicAccessorOpts = {
-        configurable: true,
-        enumerable: false
-    };
-
 	static isValid<V> ( node : TreeNode<V> ) { return node instanceof TreeNode }
 
 	/* istanbul ignore next */
     constructor( tree : Tree<T>, value? : T, index? : number ) {
-        const iTokensMap = registerNodeInternalsFor( this );
-        const  ctx = this;
-        Object.defineProperty( ctx, iTokensMap.index, {
-            set( index : number ) { ctx._index = index },
-            ...TreeNode.dynammicAccessorOpts
-        });
-        Object.defineProperty( ctx, iTokensMap.left, {
-            set( node : TreeNode<T> = null ) {
-                ctx._left = node;
-                if( node ) { node[ nodeAccessMap.get( node ).root ] = this }
-            },
-            ...TreeNode.dynammicAccessorOpts
-        });
-        Object.defineProperty( ctx, iTokensMap.right, {
-            set( node : TreeNode<T> = null ) {
-                ctx._right = node;
-                if( node ) { node[ nodeAccessMap.get( node ).root ] = this }
-            },
-            ...TreeNode.dynammicAccessorOpts
-        });
-        Object.defineProperty( ctx, iTokensMap.root, {
-            set( node : TreeNode<T> = null ) {
-                if( node !== ctx._root ) { ctx._root = node }
-            },
-            ...TreeNode.dynammicAccessorOpts
-        });
         this._index = index;
         this._treeRef = new WeakRef( tree );
         this._value = value;
@@ -162,11 +349,26 @@ export class TreeNode<T = unknown> {
         return children;
     }
     
+    /**
+     * number of ancestors between this node and the tree root. Is -1 while this node is detached.
+     * @readonly
+     */
+    get depth() {
+        return this._size ? depthOf( this ) : -1;
+    }
+
     /**
      * left-to-right InOrder positioning index when this node was lastly an accessible part of its tree. If this node's isDetached flag is false, then this value is the current index of this node in the order as described.
      * @readonly
      */
-    get index() { return this._index }
+    get index() {
+        if( this._isDetached || !this._size ) { return this._index }
+        let index = this._left?._size ?? 0;
+        for( let node : TreeNode<T> = this, parent = this._root; parent !== null; node = parent, parent = parent._root ) {
+            if( parent._right === node ) { index += ( parent._left?._size ?? 0 ) + 1 }
+        }
+        return index;
+    }
     
     /**
      * is set if this node is currently not an accessible part of its tree
@@ -186,24 +388,63 @@ export class TreeNode<T = unknown> {
      */
     get isFree() { return !Tree.isValid( this.tree ) }
 
+    /**
+     * is set if this node is an accessible part of its tree without children
+     * @readonly
+     */
+    get isLeaf() {
+        return this._size === 1;
+    }
+
     /** @readonly */
 	get left(){
-        this.tree?.rotate();
         return this._left;
     }
 
+    /**
+     * next node in the left-to-right InOrder sequence. Is null for the last node or while this node is detached.
+     * @readonly
+     */
+    get next() {
+        return this._size ? successorOf( this ) : null;
+    }
+
+    /**
+     * previous node in the left-to-right InOrder sequence. Is null for the first node or while this node is detached.
+     * @readonly
+     */
+    get prev() {
+        return this._size ? predecessorOf( this ) : null;
+    }
+
 	/** @readonly */
 	get right(){
-        this.tree?.rotate();
         return this._right;
      }
 
 	/** @readonly */
 	get root() {
-        this.tree.rotate();
         return this._root;
     }
 
+    /**
+     * the other child of this node's parent. Is null if there is none.
+     * @readonly
+     */
+    get sibling() {
+        const parent = this._root;
+        if( parent === null ) { return null }
+        return parent._left === this ? parent._right : parent._left;
+    }
+
+    /**
+     * number of levels in the subtree rooted at this node. Is 0 while this node is detached.
+     * @readonly
+     */
+    get subtreeHeight() {
+        return this._height;
+    }
+
     get tree(){ return this._treeRef?.deref() }
 
 	get value(){ return this._value }
@@ -224,8 +465,12 @@ export class TreeNode<T = unknown> {
 
 	set value( value ){
         if( this._value === value ) { return }
-        this._value = value;
-        this.tree?.synchronize( this );
+        recordStepOf( this, () => {
+            journalNodeStateOf( this );
+            !this._isDetached && this.tree?.[ TREE_TOKENS.freezeSnapshots ]();
+            this._value = value;
+            this.tree?.synchronize( this );
+        });
     }
 
     /**
@@ -241,17 +486,32 @@ export class TreeNode<T = unknown> {
         return this;
     }
 
+    /**
+     * @returns {number} number of links on the path between this node and `node`. Returns -1 if either node is detached.
+     * @throws {TypeError} For an invalid node argument.
+     * @throws {ReferenceError} For a node which does not belong to this node's tree.
+     */
+    distanceTo( node : TreeNode<T> ) : number {
+        throwOnInvalidNode( node );
+        throwOnNodeTreeMismatch( this.tree, node );
+        const ancestor = lowestCommonAncestorOf( this, node );
+        return ancestor ? depthOf( this ) + depthOf( node ) - 2 * depthOf( ancestor ) : -1;
+    }
+
     /** completely dissociate self from its tree */
     free() {
         if( this.isFree ) { return this }
+        const tree = this.tree;
+        const isPublishing = this._isDetached && !tree.isDisposing;
         this._transition = Transition.DISASSOCIATING;
-        if( !this.tree.isDisposing ) {
+        if( !tree.isDisposing ) {
             !this._isDetached && this._remove();
             this._stopTreeCleanupWatch();
         }
         this._treeRef = null;
         this._isDetached = true; // always ensure that a freed node's detached flag is set. 
         this._transition = Transition.COMPLETE;
+        isPublishing && tree[ TREE_TOKENS.publish ]( 'free', this );
         return this;
     }
 
@@ -262,7 +522,6 @@ export class TreeNode<T = unknown> {
     *genAncestors(
         nGenerations : number = Number.POSITIVE_INFINITY
     ) : Generator<TreeNode<T>> {
-        this.tree?.rotate();
         for( let parent = this.root, i = 0; i < nGenerations && parent !== null; i++, parent = parent.root ) {
             yield parent;
         }
@@ -275,13 +534,11 @@ export class TreeNode<T = unknown> {
     *genDescendants(
         nGenerations : number = Number.POSITIVE_INFINITY
     ) : Generator<TreeNode<T>> {
-        this.tree?.rotate();
         yield* genDescendantsFrom( this, nGenerations );
     }
 
     /** @returns {Generator<TreeNode<T>>} parent nodes up the tree until `anscestorNode`. Returns empty array if `ancestorNode` not found in the hierarchy */
     *genParentsUntil( ancestorNode? : TreeNode<T> ) {
-        this.tree?.rotate();
         for( let parent = this.root; parent !== null; parent = parent.root ) {
             yield parent;
             if( parent === ancestorNode ) { break }
@@ -346,7 +603,11 @@ export class TreeNode<T = unknown> {
     }
 }
 
-class Tree<T = unknown> {
+defineNodeInternalsOn( TreeNode.prototype );
+
+class Tree<T = unknown, K = unknown> {
+
+    static CRITERIA_MISMATCH_MESSAGE = 'Cannot combine trees with differing `comparator`, `isSameValue`, `isValueBefore` or `key` criteria.';
 
     static DEFAULT : DEFAULT_CONSTANT = '__DEFAULT__';
 
@@ -354,38 +615,197 @@ class Tree<T = unknown> {
 
     static TREE_MISMATCH_MESSAGE = 'Cannot perform this operation on a node which does not belong to this tree.';
 
+    /**
+     * Starts an `Ordering`: criteria ordering values by the key `extract`ed from them.
+     * Refine it by chaining `thenBy(...)`, `nullsFirst()` and `nullsLast()`.
+     * 
+     * @param {SortDirection} [direction] - defaults to 'asc'
+     * @param {Intl.Collator} [collator] - orders keys as strings by locale. Defaults to the default order.
+     * @throws {TypeError} For an invalid argument.
+     */
+    static by<T = unknown>(
+        extract : ( value : T ) => unknown,
+        direction? : SortDirection,
+        collator? : Intl.Collator
+    ) : Ordering<T> {
+        return new Ordering<T>( extract, direction, collator );
+    }
+
+    /**
+     * Moves the nodes of both trees into a new tree sharing the options of the first tree: `tree`'s nodes followed by `otherTree`'s. Both trees are left empty.
+     * Node instances are kept. Detached nodes remain associated with their trees.
+     * The new tree allows duplicates if either tree does.
+     * 
+     * @throws {TypeError} For an invalid tree argument.
+     * @throws {Error} For the same tree supplied twice, or for trees with differing criteria or overlapping value ranges.
+     */
+    static concat<T = unknown>( tree : Tree<T>, otherTree : Tree<T> ) : Tree<T> {
+        if( !Tree.isValid( tree ) ) {
+            throw new TypeError( 'Invalid `tree` argument supplied. Tree expected.' );
+        }
+        throwOnCriteriaMismatch( tree, otherTree );
+        if( tree === otherTree ) {
+            throw new Error( 'Cannot concatenate a tree with itself.' );
+        }
+        const allowDuplicates = tree._allowDuplicates || otherTree._allowDuplicates;
+        const lastNode = tree._nodeAt( tree.size - 1 );
+        const firstNode = otherTree._nodeAt( 0 );
+        if( lastNode && firstNode ) {
+            const order = tree.compare( lastNode.value, firstNode );
+            if( order === 1 || ( order === 0 && !allowDuplicates ) ) {
+                throw new Error( 'Cannot concatenate trees with overlapping value ranges.' );
+            }
+        }
+        const result = tree._makeEmptyCopy();
+        result._allowDuplicates = allowDuplicates;
+        const nodes = tree._release([ result ]);
+        return result._adopt( nodes.concat( otherTree._release([ result ]) ) );
+    }
+
+    /**
+     * Revives a tree serialized through `tree.toJSON(...)`.
+     * Unless `options.isSorted` is set, values are sorted and deduped as in `new Tree(...)`. Any serialized shape is then ignored.
+     * `options.allowDuplicates` when set overrides the serialized one.
+     * 
+     * @throws {TypeError} For an invalid `json` argument, an invalid `reviver` option or a serialized shape not matching a height-balanced tree of the serialized values.
+     */
+    static fromJSON<T = unknown, V = unknown>(
+        json : string | TreeJSON<V>,
+        options : TreeFromJSONOptions<T, V> = EMPTY_OBJ
+    ) : Tree<T> {
+        if( typeof json === 'string' ) { json = JSON.parse( json ) as TreeJSON<V> }
+        if( json === null || typeof json !== 'object' || !Array.isArray( json.values ) ) {
+            throw new TypeError( 'Invalid `json` argument supplied to `fromJSON` method. A `TreeJSON` object or its JSON string expected.' );
+        }
+        const { isSorted = false, reviver, ...treeOptions } = options ?? ( EMPTY_OBJ as TreeFromJSONOptions<T, V> );
+        if( typeof reviver !== 'undefined' && typeof reviver !== 'function' ) {
+            throw new TypeError( 'Invalid `reviver` option supplied to `fromJSON` method. Function expected or leave it unset.' );
+        }
+        const values = ( reviver
+            ? json.values.map(( v, i ) => reviver( v, i ) )
+            : json.values
+        ) as Array<T>;
+        treeOptions.allowDuplicates = treeOptions.allowDuplicates ?? !!json.allowDuplicates;
+        if( !isSorted ) { return new Tree<T>( values, treeOptions ) }
+        const tree = new Tree<T>( undefined, treeOptions );
+        const nodes = values.map(( v, i ) => new TreeNode<T>( tree, v, i ) );
+        if( !json.shape ) {
+            tree._root = tree._makeRotation( nodes );
+            return tree;
+        }
+        tree._root = linkPreOrder( nodes, json.shape );
+        if( heightOf( tree._root ) > Math.ceil( Math.log2( nodes.length + 1 ) ) ) { tree._scheduleRotation() }
+        return tree;
+    }
+
     static isValid<T>( tree : Tree<T> ) { return tree instanceof Tree }
 
+    private _allowDuplicates = false;
     private _autoRotateTimer : NodeJS.Timeout = null;
+    private _comparator : Comparator<T> = null;
+    private _history : History = {
+        depth: 0,
+        isDiscarding: false,
+        level: 0,
+        redos: [],
+        step: null,
+        undos: []
+    };
     private _isBalanced = true;
     private _isDisposing = false;
+    /** is set while a timer or microtask rotation is underway */
+    private _isRotationPending = false;
     private _isSameValue : CriteriaOptions<T>["isSameValue"];
     private _isValueBefore : CriteriaOptions<T>["isValueBefore"];
-    /** These are currently accessible nodes*/
-    private _nodes : Array<TreeNode<T>> = [];
+    /** undo log of the transaction underway if any */
+    private _journal : Journal<T> = null;
+    private _key : ( value : T ) => K = null;
+    /** number of structural modifications: node insertions, removals and relocations. Invalidates traversals underway. */
+    private _modCount = 0;
+    /** number of writes since the last rotation */
+    private _mutationCount = 0;
     private _publisher = new Publisher();
+    private _rebalancePolicy : RebalancePolicy = DEFAULT_REBALANCE_POLICY;
+    /** number of rotations: each relinks every node. Invalidates traversals underway other than in-order ones. */
+    private _rotationCount = 0;
+    /** root of the linked currently accessible nodes. Links are kept height-balanced between rotations. */
     private _root : TreeNode<T> = null;
+    /** snapshots taken since the last write. They share this tree's nodes until its next write. */
+    private _snapshots : Array<PendingSnapshot<T>> = [];
+    private _strictOrder = false;
 
-	/** Note: `options.isSameValue` config property uses `Object.is()` equality check out of the box */
+	/** Note: `options.isSameValue` config property uses `Object.is()` equality check out of the box, matching dates by time and arrays by elements */
 	constructor(
         values : Iterable<T> = [],
-        options : TreeOptions<T> = EMPTY_OBJ
+        options : TreeOptions<T, K> = EMPTY_OBJ
     ) {
+        this._allowDuplicates = !!options?.allowDuplicates;
+        this._strictOrder = !!options?.strictOrder;
+        options?.rebalance !== undefined && (
+            this._rebalancePolicy = validateRebalancePolicy( options.rebalance )
+        );
         this.criteria = {
             isSameValue: options?.isSameValue,
             isValueBefore: options?.isValueBefore
         };
+        this.key = options?.key;
+        this.comparator = options?.comparator;
         this._isDisposing = false;
         this.values = values;
+        options?.historyDepth !== undefined && ( this.historyDepth = options.historyDepth );
     } 
 
+    get allowDuplicates() { return this._allowDuplicates }
+    /** @readonly */
+    get canRedo() { return this._history.redos.length > 0 }
+    /** @readonly */
+    get canUndo() { return this._history.undos.length > 0 }
+    get comparator() { return this._comparator }
+    get historyDepth() { return this._history.depth }
     /** @readonly */
 	get isDisposing() { return this._isDisposing }
     get isSameValue() { return this._isSameValue }
     get isValueBefore() { return this._isValueBefore }
-    get size(){ return this._nodes.length }
+    get key() { return this._key }
+    get rebalance() { return this._rebalancePolicy }
+    get size(){ return sizeOf( this._root ) }
+    get strictOrder() { return this._strictOrder }
     /** specifically an array of values encased in non-detached nodes of this tree */
-    get values() { return this._nodes.map(({ value }) => value ) }
+    get values() { return this._collectNodes().map(({ value }) => value ) }
+
+    /** unsetting this property dedupes the tree */
+    set allowDuplicates( allowDuplicates : boolean ) {
+        allowDuplicates = !!allowDuplicates;
+        if( this._allowDuplicates === allowDuplicates ) { return }
+        this._recordStep(() => {
+            this._freezeSnapshots();
+            this._journalUndo(() => { this._allowDuplicates = !allowDuplicates });
+            this._allowDuplicates = allowDuplicates;
+            !allowDuplicates && this._refresh();
+            this.clearHistory();
+        });
+    }
+
+    /**
+     * setting this property to undefined restores the `isSameValue`, `isValueBefore` and `key` ordering.
+     * 
+     * @throws {TypeError} for a non-function comparator
+     */
+    set comparator( comparator : Comparator<T> ) {
+        comparator = comparator ?? null;
+        if( comparator !== null && typeof comparator !== 'function' ) {
+            throw new TypeError( 'Invalid `comparator` supplied. Function expected or leave it unset.' );
+        }
+        if( this._comparator === comparator ) { return }
+        this._recordStep(() => {
+            this._freezeSnapshots();
+            const _comparator = this._comparator;
+            this._journalUndo(() => { this._comparator = _comparator });
+            this._comparator = comparator;
+            this._refresh();
+            this.clearHistory();
+        });
+    }
 
     /**
      * sets both `isSameValue` and `isValueBefore` propeties simultaneously.
@@ -398,15 +818,44 @@ class Tree<T = unknown> {
             isSameValue = Tree.DEFAULT,
             isValueBefore = Tree.DEFAULT
         } = criteria ?? ( EMPTY_OBJ as CriteriaOptions<T> );
-        if( this._isSameValue !== isSameValue && validateCriterion(
-            isSameValue as Criterion<T>, 'isSameValue'
-        ) ) { this._isSameValue = isSameValue }
-        if( this._isValueBefore !== isValueBefore && validateCriterion(
-            isValueBefore as Criterion<T>, 'isValueBefore'
-        ) ) { this._isValueBefore = isValueBefore }
-        this._refresh();
+        this._recordStep(() => {
+            this._freezeSnapshots();
+            const { _isSameValue, _isValueBefore } = this;
+            this._journalUndo(() => {
+                this._isSameValue = _isSameValue;
+                this._isValueBefore = _isValueBefore;
+            });
+            if( this._isSameValue !== isSameValue && validateCriterion(
+                isSameValue as Criterion<T>, 'isSameValue'
+            ) ) { this._isSameValue = isSameValue }
+            if( this._isValueBefore !== isValueBefore && validateCriterion(
+                isValueBefore as Criterion<T>, 'isValueBefore'
+            ) ) { this._isValueBefore = isValueBefore }
+            this._refresh();
+            this.clearHistory();
+        });
     }
 
+    /**
+     * setting this property to undefined or 0 turns the history off and drops its steps.
+     * a lesser depth drops the oldest steps.
+     * 
+     * @throws {TypeError} for a depth other than a non-negative integer or Infinity
+     */
+    set historyDepth( depth : number ) {
+        depth = depth ?? 0;
+        if( typeof depth !== 'number' || !( depth >= 0 ) || ( depth !== Infinity && !Number.isInteger( depth ) ) ) {
+            throw new TypeError( 'Invalid `historyDepth` supplied. A non-negative integer or Infinity expected.' );
+        }
+        const history = this._history;
+        history.depth = depth;
+        if( !depth ) {
+            this.clearHistory();
+            return;
+        }
+        history.undos.length > depth && history.undos.splice( 0, history.undos.length - depth );
+        history.redos.length > depth && history.redos.splice( 0, history.redos.length - depth );
+    }
 	/** setting this property to undefined or Tree.DEFAULT will reset it to default */
 	set isSameValue( isSameValue : CriteriaOptions<T>["isSameValue"] ){
         this.criteria = { isSameValue: isSameValue ?? Tree.DEFAULT };
@@ -416,56 +865,133 @@ class Tree<T = unknown> {
         this.criteria = { isValueBefore: isValueBefore ?? Tree.DEFAULT };
     }
     /**
-     * setting this property to undefined will reset it. Alias: `this.clear()`
+     * setting this property to undefined orders values by themselves.
+     * applies to default criteria only: custom `isSameValue` and `isValueBefore` criteria receive whole values.
      * 
-     * @throws {TypeError} for non-iterable input
+     * @throws {TypeError} for a non-function key extractor
      */
-	set values( _values : Iterable<T> ) {
-        let nodes : Array<TreeNode<T>> = [];
-        if( !_values ) { _values = [] };
+    set key( key : ( value : T ) => K ) {
+        key = key ?? null;
+        if( key !== null && typeof key !== 'function' ) {
+            throw new TypeError( 'Invalid `key` supplied. Function expected or leave it unset.' );
+        }
+        if( this._key === key ) { return }
+        this._recordStep(() => {
+            this._freezeSnapshots();
+            const _key = this._key;
+            this._journalUndo(() => { this._key = _key });
+            this._key = key;
+            this._refresh();
+            this.clearHistory();
+        });
+    }
+    /**
+     * setting this property to undefined will reset it to default.
+     * a rotation pending under the current policy is rescheduled under the new one.
+     * 
+     * @throws {TypeError} for an unrecognized policy
+     */
+    set rebalance( policy : RebalancePolicy ) {
+        policy = validateRebalancePolicy( policy ?? DEFAULT_REBALANCE_POLICY );
+        if( this._rebalancePolicy === policy ) { return }
+        this._rebalancePolicy = policy;
+        if( this._isBalanced ) { return }
+        this._cancelRotation()._applyRebalancePolicy();
+    }
+    /**
+     * applies to default criteria only. Values already in the tree are checked when turned on.
+     * 
+     * @throws {TypeError} when turned on over values of differing or unorderable types
+     */
+    set strictOrder( strictOrder : boolean ) {
+        strictOrder = !!strictOrder;
+        if( this._strictOrder === strictOrder ) { return }
+        this._strictOrder = strictOrder;
+        if( !strictOrder ) { return }
         try {
-            for( const v of [ ..._values ] ) { nodes.push( new TreeNode<T>( this, v ) ) }
+            const nodes = this._collectNodes();
+            for( let i = 1; i < nodes.length; i++ ) { this.compare( nodes[ i ].value, nodes[ i - 1 ] ) }
         } catch( e ) {
-            /* istanbul ignore next */
-            if( e.constructor.name === 'TypeError' && e.message === '_values is not iterable' ) {
-                throw new TypeError( 'Can only set values property using an iterable or (falsy values for an empty tree).' );
-            }
-            /* istanbul ignore next */
+            this._strictOrder = false;
             throw e;
         }
-        if( !nodes.length ) {
-            this._nodes.length &&
-            this._empty()._scheduleRotation( 0 );
-            return; 
-        }
-        nodes = nodes.sort(({ value }, node ) => this.compare( value, node ));
-        let node = nodes.shift();
-        node[ nodeAccessMap.get( node ).index ] = 0;
-        const uniqueNodes = [ node ];
-        let hasSameValues = this.size !== 0 && this._equalsNodeVal(
-            uniqueNodes[ 0 ].value, this._nodes[ 0 ]
-        );
-        let uLen;
-        while( nodes.length ) {
-            uLen = uniqueNodes.length;
-            node = nodes.shift();
-            if( !this._equalsNodeVal( node.value, uniqueNodes[ uLen - 1 ] ) ) {
-                node[ nodeAccessMap.get( node ).index ] = uLen;
-                uniqueNodes.push( node );
+    }
+    /**
+     * setting this property to undefined will reset it. Alias: `this.clear()`
+     * 
+     * @throws {TypeError} for non-iterable input
+     */
+	set values( _values : Iterable<T> ) {
+        this._recordStep(() => {
+            let nodes : Array<TreeNode<T>> = [];
+            if( !_values ) { _values = [] };
+            try {
+                for( const v of [ ..._values ] ) { nodes.push( new TreeNode<T>( this, v ) ) }
+            } catch( e ) {
                 /* istanbul ignore next */
-                if( hasSameValues && ( uLen === this.size || !this._equalsNodeVal(
-                    node.value,
-                    this._nodes[ uLen ]
-                ) ) ) {
-                    hasSameValues = false;
+                if( e.constructor.name === 'TypeError' && e.message === '_values is not iterable' ) {
+                    throw new TypeError( 'Can only set values property using an iterable or (falsy values for an empty tree).' );
                 }
+                /* istanbul ignore next */
+                throw e;
             }
-        }
-        /* istanbul ignore next */
-        if( hasSameValues ) { return }
-        this._empty();
-        this._nodes = uniqueNodes;
-        this._scheduleRotation();
+            if( !nodes.length ) {
+                if( this.size ) {
+                    this._modCount++;
+                    this._empty()._scheduleRotation();
+                }
+                return; 
+            }
+            nodes = nodes.sort(({ value }, node ) => this.compare( value, node ));
+            const currentNodes = this._collectNodes();
+            let node = nodes.shift();
+            node[ NODE_TOKENS.index ] = 0;
+            const uniqueNodes = [ node ];
+            let hasSameValues = this.size !== 0 && this._equalsNodeVal(
+                uniqueNodes[ 0 ].value, currentNodes[ 0 ]
+            );
+            let uLen;
+            while( nodes.length ) {
+                uLen = uniqueNodes.length;
+                node = nodes.shift();
+                if( this._allowDuplicates || !this._equalsNodeVal( node.value, uniqueNodes[ uLen - 1 ] ) ) {
+                    node[ NODE_TOKENS.index ] = uLen;
+                    uniqueNodes.push( node );
+                    /* istanbul ignore next */
+                    if( hasSameValues && ( uLen === this.size || !this._equalsNodeVal(
+                        node.value,
+                        currentNodes[ uLen ]
+                    ) ) ) {
+                        hasSameValues = false;
+                    }
+                }
+            }
+            /* istanbul ignore next */
+            if( hasSameValues && uniqueNodes.length === this.size ) { return }
+            this._freezeSnapshots();
+            for( const node of uniqueNodes ) { this._journalNodeState( node, null, true ) }
+            this._modCount++;
+            this.size ? this._empty() : this._journalLinks();
+            this._root = this._makeRotation( uniqueNodes );
+            this._scheduleRotation();
+            for( let i = 0, uLen = uniqueNodes.length; i < uLen; i++ ) {
+                this._publish( 'insert', uniqueNodes[ i ], i );
+            }
+        });
+    }
+
+    /** Iterates over the tree values in left-to-right in-order sequence. */
+    [ Symbol.iterator ]() : Generator<T> { return this._genValues() }
+
+    /** @returns {T} value at the left-to-right in-order `index` position. Accepts a negative index to count from the end. */
+    at( index : number ) : T { return this.getNodeAt( index )?.value }
+
+    /**
+     * @returns {TreeNode<T>} node holding the smallest value not sorted before `value`. Returns `undefined` if none found.
+     * @see Tree.lowerBound
+     */
+    ceiling( value : T ) : TreeNode<T> {
+        return this._nodeAt( this.lowerBound( value ) );
     }
 
     /**
@@ -485,9 +1011,20 @@ class Tree<T = unknown> {
         return this;
     }
 
+    /** Drops all undoable and redoable steps. Also drops the step underway if any. */
+    clearHistory() {
+        const history = this._history;
+        history.redos = [];
+        history.step = null;
+        history.undos = [];
+        history.isDiscarding = history.level > 0;
+        return this;
+    }
+
     /** @throws {TypeError} Invoid node argument type */
-    compare( value : T, node : TreeNode<T> ) {
+    compare( value : T, node : TreeNode<T> ) : 0 | 1 | -1 {
         throwOnInvalidNode( node );
+        if( this._comparator !== null ) { return signOf( this._comparator( value, node.value ) ) }
         return this._equalsNodeVal( value, node )
             ? 0
             : this._isLessThanNodeVal( value, node )
@@ -495,68 +1032,166 @@ class Tree<T = unknown> {
                 : 1;
     }
 
+    /** @returns {number} number of nodes matching `value`. Always either 0 or 1 unless `allowDuplicates` is set. */
+    count( value : T ) : number {
+        return this._bisect( value, true ) - this._bisect( value );
+    }
+
     /**
-     * @throws {Error} Invalid argument values
-     * @throws {TypeError} Invalid argument types
+     * @param {T|TreeNode<T>} [start] - node of this tree or value to position the cursor at as in `cursor.seek(...)`. Defaults to the first node.
+     * @throws {ReferenceError} For a `start` node which does not belong to this tree
+     * @see TreeCursor
+     */
+    cursor( start? : T | TreeNode<T> ) : TreeCursor<T> { return new TreeCursor<T>( this, start ) }
+
+    /**
+     * @returns {Tree<T>} tree holding the values of this tree not matched in the `other` tree.
+     * @throws {TypeError} For an invalid `other` tree.
+     * @throws {Error} For an `other` tree with differing `isSameValue` or `isValueBefore` criteria.
+     * @see SetOperationOptions
+     */
+    difference( other : Tree<T>, options? : SetOperationOptions ) : Tree<T> {
+        return this._mergeWith( other, { left: true, match: false, right: false }, options );
+    }
+
+    /** @returns {Generator<[number, T]>} in-order index and value pairs in left-to-right in-order sequence */
+    *entries() : Generator<[ number, T ]> {
+        let index = 0;
+        for( const value of this._genValues() ) { yield [ index++, value ] }
+    }
+
+    /**
+     * Stops at the first node failing the predicate.
+     * @throws {TypeError} For a non-function `predicate`
      * @see TraversalOptions
      */
-    *genTraversal(
-        options : TraversalOptions = EMPTY_OBJ
-    ) : Generator<TreeNode<T>> {
-        this.rotate();
-        if( this._root === null ) { return }
-        const len = this._nodes.length;
-        let {
-            direction = TraversalDirection.RIGHT,
-            maxLength = undefined,
-            order = TraversalOrder.IN,
-            start = undefined
-        } = options;
-        if( direction !== TraversalDirection.LEFT && direction !== TraversalDirection.RIGHT ) {
-            throw new Error( 'Invalid `direction` option supplied to `traverse` method. A member of `TraversalDirection` expected or leave it unset.' );
-        }
-        if( typeof maxLength !== 'undefined' && !isNumber( maxLength ) ) {
-            throw new TypeError( 'Invalid `maxLength` option supplied to `traverse` method. Integer expected or leave it unset.' );
-        }
-        /* istanbul ignore else */
-        if( maxLength === 0  ) { return }
-        if( isNumber( start ) ) {
-            if( start < 0 ) { start = len + start }
-            if( start < 0 || start >= len ) { start = undefined }
-        } else if( typeof start !== 'undefined' ) {
-            throw new TypeError( 'Invalid `start node index` option supplied to `traverse` method. Integer expected or leave it unset.' );
+    every( predicate : IterationCallback<T, unknown>, options? : TraversalOptions ) : boolean {
+        validateCallback( predicate, 'every' );
+        for( const node of this.genTraversal( options ) ) {
+            if( !predicate( node.value, node, this ) ) { return false }
         }
-        const nodes = this._nodes;
-        switch( order ) {
-            case TraversalOrder.IN: {
-                maxLength = maxLength ?? len;
-                if( direction === TraversalDirection.RIGHT ) {
-                    start = start ?? 0;
-                    let end = start + maxLength;
-                    if( end > len ) { end = len };
-                    for( let i = start; i < end; i++ ) { yield nodes[ i ] }
-                    break;
-                }
-                start = start ?? nodes.length - 1;
-                let end = start - maxLength;
-                end = ( end < 0 ? 0 : end ) - 1;
-                for( let i = start; i > end; i-- ) { yield nodes[ i ] }
-                break;
+        return true;
+    }
+
+    /**
+     * Lazily generates the values of the nodes passing the predicate.
+     * @throws {TypeError} For a non-function `predicate`: on calling rather than on iterating.
+     * @see TraversalOptions
+     */
+    filter( predicate : IterationCallback<T, unknown>, options? : TraversalOptions ) : Generator<T> {
+        validateCallback( predicate, 'filter' );
+        return this._genFiltered( predicate, options );
+    }
+
+    /**
+     * Stops at the first node passing the predicate.
+     * @returns {T} value of the first node passing the predicate. Returns `undefined` if none found.
+     * @throws {TypeError} For a non-function `predicate`
+     * @see TraversalOptions
+     */
+    find( predicate : IterationCallback<T, unknown>, options? : TraversalOptions ) : T {
+        validateCallback( predicate, 'find' );
+        for( const node of this.genTraversal( options ) ) {
+            if( predicate( node.value, node, this ) ) { return node.value }
+        }
+    }
+
+    /**
+     * @returns {TreeNode<T>} node holding the largest value not sorted after `value`. Returns `undefined` if none found.
+     * @see Tree.upperBound
+     */
+    floor( value : T ) : TreeNode<T> {
+        const index = this.upperBound( value ) - 1;
+        return index > -1 ? this._nodeAt( index ) : undefined;
+    }
+
+    /**
+     * Generates in-order nodes whose values fall between the `from` and `to` range bounds.
+     * Range bounds need not be values present in the tree.
+     * 
+     * @throws {Error} Invalid direction option
+     * @see RangeOptions
+     */
+    *genRange(
+        options : RangeOptions<T> = EMPTY_OBJ
+    ) : Generator<TreeNode<T>> {
+        const {
+            direction = TraversalDirection.RIGHT,
+            from = undefined,
+            fromInclusive = true,
+            to = undefined,
+            toInclusive = true
+        } = options ?? ( EMPTY_OBJ as RangeOptions<T> );
+        if( direction !== TraversalDirection.LEFT && direction !== TraversalDirection.RIGHT ) {
+            throw new Error( 'Invalid `direction` option supplied to `genRange` method. A member of `TraversalDirection` expected or leave it unset.' );
+        }
+        const start = typeof from === 'undefined' ? 0 : this._bisect( from, !fromInclusive );
+        const end = typeof to === 'undefined' ? this.size : this._bisect( to, toInclusive );
+        if( start >= end ) { return }
+        yield* this._genInOrder(
+            direction,
+            end - start,
+            this._nodeAt( direction === TraversalDirection.RIGHT ? start : end - 1 )
+        );
+    }
+
+    /**
+     * @throws {Error} Invalid argument values
+     * @throws {TypeError} Invalid argument types
+     * @throws {ConcurrentModificationError} On resuming past a structural modification of this tree, or past a rotation of it outside of in-order traversals
+     * @see TraversalOptions
+     */
+    *genTraversal(
+        options : TraversalOptions = EMPTY_OBJ
+    ) : Generator<TreeNode<T>> {
+        const modCount = this._modCount;
+        const rotationCount = ( options?.order ?? TraversalOrder.IN ) === TraversalOrder.IN
+            ? null
+            : this._rotationCount;
+        for( const node of this._genTraversal( options ) ) {
+            yield node;
+            if( this._modCount !== modCount ||
+                rotationCount !== null && this._rotationCount !== rotationCount
+            ) {
+                throw new ConcurrentModificationError();
             }
-            case TraversalOrder.POST: yield* this._genPostOrder( direction, maxLength, nodes[ start ] ); break;
-            case TraversalOrder.PRE: yield* this._genPreOrder( direction, maxLength, nodes[ start ] );
-            break;
-            default: throw new Error( 'Unknown order detected. Member of the `TraversalOrder` expected or leave it unset.' );
         }
     }
 
+    /**
+     * @returns {T} value of the first node whose key matches `key`. Returns `undefined` if none found.
+     * @throws {Error} For a tree not ordered by its `key` option.
+     * @see Tree.indexOfKey
+     */
+    getByKey( key : K ) : T {
+        const index = this.indexOfKey( key );
+        return index === -1 ? undefined : this._nodeAt( index ).value;
+    }
+
+    /** @returns {Array<Array<TreeNode<T>>>} nodes grouped by depth starting from the tree root. Each group is in left-to-right sequence. */
+    getLevels() : Array<Array<TreeNode<T>>> {
+        const levels = [];
+        for( let level = this._root ? [ this._root ] : []; level.length; ) {
+            levels.push( level );
+            const nextLevel = [];
+            for( const node of level ) {
+                leftOf( node ) && nextLevel.push( leftOf( node ) );
+                rightOf( node ) && nextLevel.push( rightOf( node ) );
+            }
+            level = nextLevel;
+        }
+        return levels;
+    }
+
     /**
      * Returns node located at index using a left-to-right in-order traversal
      * @param {number} index - index can be negative index number to count from the end
      */
-    getNodeAt( index : number ) { return this._nodes[ index < 0 ? this._nodes.length + index : index ] }
+    getNodeAt( index : number ) { return this._nodeAt( index < 0 ? this.size + index : index ) }
 
     /**
+     * Returns the index of the first matching node when `allowDuplicates` is set.
+     * 
      * @param {number} [start] - negative integer accepted to caunt from the end. 
      * @param {number} [end] - negative integer accepted to caunt from the end.
      */
@@ -565,40 +1200,34 @@ class Tree<T = unknown> {
         start : number = 0,
         end : number = this.size - 1
     ) : number {
-        let last = this._nodes.length - 1;
-        if( last === -1 || start > last ) { return -1 }
-        if( start < 0 ) {
-            start = last + start + 1;
-            if( start < 0 ) { start = 0 }
-        }
-        if( end > last ) {
-            end = last;
-        } else {
-            if( end < 0 ) { end = last + end + 1 }
-            if( end <= start ) {
-                return this.compare( value, this._nodes[ start ] ) === 0
-                    ? start
-                    : -1
-            }
+        return this._searchIndex( value, start, end );
+    }
+
+    /**
+     * Looks up values by key alone: requires the `key` option under the default criteria.
+     * @returns {number} index of the first node whose key matches `key`. Returns -1 if none found.
+     * @throws {Error} For a tree not ordered by its `key` option.
+     */
+    indexOfKey( key : K ) : number {
+        if( this._key === null ||
+            this._comparator !== null ||
+            this._isSameValue !== Tree.DEFAULT ||
+            this._isValueBefore !== Tree.DEFAULT
+        ) {
+            throw new Error( 'Cannot look up values by key in a tree not ordered by its `key` option.' );
         }
-        let mid, node;
-        do {
-            mid = Math.floor( ( start + end ) / 2 );
-            node = this._nodes[ mid ];
-            switch( this.compare( value, node ) ) {
-                case -1: end = mid - 1; break;
-                case 1: start = mid + 1; break;
-                default: return node.index;
-            }
-        } while( start <= end );
-        return -1;
+        const index = this._bisectKey( key );
+        return index < this.size && isSameDefaultFn( key, this._key( this._nodeAt( index ).value ) )
+            ? index
+            : -1;
     }
     
     insert( value : T ) {
         const iIndex = this._findInsertionIndex( value );
-        return iIndex !== -1
-            ? this._insertNodeAt( new TreeNode<T>( this, value, iIndex ), iIndex )
-            : this;
+        if( iIndex === -1 ) { return this }
+        const node = new TreeNode<T>( this, value, iIndex );
+        this._journalNodeState( node, null, true );
+        return this._insertNodeAt( node, iIndex );
     }
     
     /**
@@ -620,15 +1249,231 @@ class Tree<T = unknown> {
         return this._insertNodeAt( node, this._findInsertionIndex( node.value ) );
     }
 
+    /**
+     * @returns {Tree<T>} tree holding the values matched in both this and the `other` tree.
+     * @throws {TypeError} For an invalid `other` tree.
+     * @throws {Error} For an `other` tree with differing `isSameValue` or `isValueBefore` criteria.
+     * @see SetOperationOptions
+     */
+    intersection( other : Tree<T>, options? : SetOperationOptions ) : Tree<T> {
+        return this._mergeWith( other, { left: false, match: true, right: false }, options );
+    }
+
+    /**
+     * @returns {boolean} true if each value of this tree is matched in the `other` tree.
+     * @throws {TypeError} For an invalid `other` tree.
+     * @throws {Error} For an `other` tree with differing `isSameValue` or `isValueBefore` criteria.
+     */
+    isSubsetOf( other : Tree<T> ) : boolean {
+        throwOnCriteriaMismatch( this, other );
+        if( this.size > other.size ) { return false }
+        for( let node = this._nodeAt( 0 ), otherNode = other._nodeAt( 0 ); node; ) {
+            if( !otherNode ) { return false }
+            const order = this.compare( node.value, otherNode );
+            if( order === -1 ) { return false }
+            order === 0 && ( node = successorOf( node ) );
+            otherNode = successorOf( otherNode );
+        }
+        return true;
+    }
+
+    /** @returns {Generator<number>} in-order indexes from 0 to `tree.size - 1` */
+    *keys() : Generator<number> {
+        for( let i = 0, size = this.size; i < size; i++ ) { yield i }
+    }
+
+    /**
+     * Returns the index of the last matching node when `allowDuplicates` is set. Otherwise, same as `this.indexOf(...)`.
+     * 
+     * @param {number} [start] - negative integer accepted to caunt from the end. 
+     * @param {number} [end] - negative integer accepted to caunt from the end.
+     */
+    lastIndexOf(
+        value : T,
+        start : number = 0,
+        end : number = this.size - 1
+    ) : number {
+        return this._searchIndex( value, start, end, true );
+    }
+
+    /**
+     * Uses the same `isSameValue` and `isValueBefore` criteria as `this.compare(...)`.
+     * @returns {number} index of the first node whose value is not sorted before `value`. Returns `tree.size` if none found.
+     */
+    lowerBound( value : T ) : number { return this._bisect( value ) }
+
+    /**
+     * @returns {TreeNode<T>} deepest node holding both nodes in its subtree. Returns null if either node is detached.
+     * @throws {TypeError} For an invalid node argument.
+     * @throws {ReferenceError} For a node which does not belong to this tree.
+     */
+    lowestCommonAncestor( node : TreeNode<T>, otherNode : TreeNode<T> ) : TreeNode<T> {
+        throwOnInvalidNode( node );
+        throwOnInvalidNode( otherNode );
+        throwOnNodeTreeMismatch( this, node );
+        throwOnNodeTreeMismatch( this, otherNode );
+        return lowestCommonAncestorOf( node, otherNode );
+    }
+
+    /**
+     * Listen to this tree's mutation events.
+     * Subscriptions are released by `this.cleanup()`.
+     * 
+     * @throws {TypeError} For an unknown event name or a non-function subscriber.
+     * @see TreeEventMap
+     */
+    on<E extends TreeEventName>(
+        eventName : E,
+        subscriber : TreeEventMap<T>[ E ]
+    ) : UnsubscribeFn {
+        if( !EVENT_NAMES.includes( eventName ) ) {
+            throw new TypeError( `Unknown tree event "${ eventName }". One of ${ EVENT_NAMES.map( n => `"${ n }"` ).join( ', ' ) } expected.` );
+        }
+        if( typeof subscriber !== 'function' ) {
+            throw new TypeError( 'Invalid subscriber supplied to the `on` method. Function expected.' );
+        }
+        return this._publisher.subscribe( eventName, subscriber as Subscriber );
+    }
+
+    /**
+     * Lazily generates the callback results of the nodes.
+     * @throws {TypeError} For a non-function `cb`: on calling rather than on iterating.
+     * @see TraversalOptions
+     */
+    map<R>( cb : IterationCallback<T, R>, options? : TraversalOptions ) : Generator<R> {
+        validateCallback( cb, 'map' );
+        return this._genMapped( cb, options );
+    }
+
+    /**
+     * Median of the tree values. Same as `this.quantile( 0.5, options )`.
+     * 
+     * @throws {TypeError} For non-numeric values under a numeric interpolation
+     * @see QuantileOptions
+     */
+    median( options? : QuantileOptions ) : T | number { return this.quantile( 0.5, options ) }
+
     /** Listen to this tree's cleanup event. */
     onCleanup( subscriber : Subscriber ) : UnsubscribeFn {
         return this._publisher.subscribe( CLEANUP_EVENTNAME, subscriber );
     }
     
+    /**
+     * @returns {Array<TreeNode<T>>} nodes from `node` up to their lowest common ancestor and down to `otherNode` inclusive. Returns empty array if either node is detached.
+     * @throws {TypeError} For an invalid node argument.
+     * @throws {ReferenceError} For a node which does not belong to this tree.
+     */
+    pathBetween( node : TreeNode<T>, otherNode : TreeNode<T> ) : Array<TreeNode<T>> {
+        const ancestor = this.lowestCommonAncestor( node, otherNode );
+        if( !ancestor ) { return [] }
+        const path = [];
+        for( ; node !== ancestor; node = rootOf( node ) ) { path.push( node ) }
+        path.push( ancestor );
+        const descent = [];
+        for( ; otherNode !== ancestor; otherNode = rootOf( otherNode ) ) { descent.push( otherNode ) }
+        return path.concat( descent.reverse() );
+    }
+
+    /**
+     * Computes the `p` quantile of the tree values: the value at the in-order position `p * (size - 1)`.
+     * Returns `undefined` on an empty tree.
+     * 
+     * @param {number} p - between 0 and 1 inclusive. i.e. 0.99 for the 99th percentile.
+     * @throws {TypeError} For a non-numeric `p` argument or non-numeric values under a numeric interpolation
+     * @throws {Error} For a `p` argument out of range or an invalid interpolation option
+     * @see QuantileOptions
+     */
+    quantile( p : number, options : QuantileOptions = EMPTY_OBJ ) : T | number {
+        if( typeof p !== 'number' || Number.isNaN( p ) ) {
+            throw new TypeError( 'Invalid `p` argument supplied to `quantile` method. Number expected.' );
+        }
+        if( p < 0 || p > 1 ) {
+            throw new Error( 'Invalid `p` argument supplied to `quantile` method. A number between 0 and 1 inclusive expected.' );
+        }
+        const { interpolation = 'linear' } = options ?? ( EMPTY_OBJ as QuantileOptions );
+        if( !QUANTILE_INTERPOLATIONS.includes( interpolation ) ) {
+            throw new Error( `Invalid \`interpolation\` option supplied to \`quantile\` method. One of ${ QUANTILE_INTERPOLATIONS.map( n => `"${ n }"` ).join( ', ' ) } expected or leave it unset.` );
+        }
+        if( !this.size ) { return undefined }
+        const position = p * ( this.size - 1 );
+        const lowerIndex = Math.floor( position );
+        const fraction = position - lowerIndex;
+        switch( interpolation ) {
+            case 'lower': return this._nodeAt( lowerIndex ).value;
+            case 'higher': return this._nodeAt( Math.ceil( position ) ).value;
+            case 'nearest': return this._nodeAt(
+                fraction > 0.5 || ( fraction === 0.5 && lowerIndex % 2 )
+                    ? lowerIndex + 1
+                    : lowerIndex
+            ).value;
+        }
+        const lower = this._nodeAt( lowerIndex );
+        const upper = fraction ? successorOf( lower ) : lower;
+        const lowerValue = toQuantileNumber( lower.value );
+        const upperValue = toQuantileNumber( upper.value );
+        return interpolation === 'midpoint'
+            ? ( lowerValue + upperValue ) / 2
+            : lowerValue + fraction * ( upperValue - lowerValue );
+    }
+
+    /**
+     * @returns {Array<TreeNode<T>>} in-order nodes whose values fall between the `from` and `to` range bounds.
+     * @throws {Error} Invalid direction option
+     * @see RangeOptions
+     */
+    rangeOf( options? : RangeOptions<T> ) : Array<TreeNode<T>> {
+        return [ ...this.genRange( options ) ];
+    }
+
+    /**
+     * Uses the same `isSameValue` and `isValueBefore` criteria as `this.compare(...)`.
+     * @returns {number} number of values sorted before `value` whether `value` is present or not.
+     */
+    rank( value : T ) : number { return this._bisect( value ) }
+
+    /**
+     * Accumulates the values of the nodes without materializing them. Starts with the first value if no `options.initialValue` supplied.
+     * @throws {TypeError} For a non-function `cb` or for an empty traversal without an `options.initialValue`
+     * @see ReduceOptions
+     */
+    reduce<R = T>(
+        cb : ( accumulator : R, value : T, node : TreeNode<T>, tree : this ) => R,
+        options : ReduceOptions<R> = EMPTY_OBJ
+    ) : R {
+        validateCallback( cb, 'reduce' );
+        options = options ?? EMPTY_OBJ;
+        let hasAccumulator = 'initialValue' in options;
+        let accumulator = options.initialValue;
+        for( const node of this.genTraversal( options ) ) {
+            if( hasAccumulator ) {
+                accumulator = cb( accumulator, node.value, node, this );
+                continue;
+            }
+            accumulator = node.value as unknown as R;
+            hasAccumulator = true;
+        }
+        if( !hasAccumulator ) {
+            throw new TypeError( 'Cannot reduce an empty traversal without an `initialValue` option.' );
+        }
+        return accumulator;
+    }
+
+    /** Removes the first node matching `value` when `allowDuplicates` is set. */
     remove( value : T ) {
         if( !this.size ) { return this }
         const deleteIndex = this.indexOf( value );
-        deleteIndex !== -1 && this._nodes[ deleteIndex ].free();
+        deleteIndex !== -1 && this._nodeAt( deleteIndex ).free();
+        return this;
+    }
+
+    /** Removes all nodes matching `value`. */
+    removeAll( value : T ) {
+        this._recordStep(() => {
+            const start = this._bisect( value );
+            for( let i = this._bisect( value, true ); i-- > start; ) {
+                this._nodeAt( i ).free();
+            }
+        });
         return this;
     }
 
@@ -645,17 +1490,100 @@ class Tree<T = unknown> {
             node.free();
             return this;
         }
-        return this._updateNodeAt( node.index );
+        this._journalNodeState( node );
+        if( !sizeOf( node ) ) { return this }
+        this._updateNodeAt( node );
+        const oldIndex = node.index;
+        this._publish( 'remove', node, oldIndex );
+        node.transition === Transition.DETACHING && this._publish( 'detach', node, oldIndex );
+        return this;
+    }
+
+    /**
+     * Reapplies the last step reverted by `this.undo()` if any. Any new step drops the redoable steps.
+     * @throws {Error} During a transaction
+     */
+    redo() {
+        this._replayStep( this._history.redos, this._history.undos ) && this._publish( 'redo' );
+        return this;
     }
 
     rotate() {
         if( this._isBalanced ) { return this }
-        clearTimeout( this._autoRotateTimer );
+        this._cancelRotation();
+        this._mutationCount = 0;
         this._root = this._makeRotation();
+        this._root && ( this._root[ NODE_TOKENS.root ] = null );
         this._isBalanced = true;
+        this._rotationCount++;
+        this._publish( 'rotate' );
         return this;
     };
 
+    /**
+     * @param {number} k - zero-based rank
+     * @returns {TreeNode<T>} node holding the `k`th smallest value. Returns `undefined` if `k` is out of range.
+     */
+    select( k : number ) : TreeNode<T> {
+        return Number.isInteger( k ) && k >= 0 ? this._nodeAt( k ) : undefined;
+    }
+
+    /**
+     * @returns {TreeSnapshot<T>} read-only view of this tree as of now.
+     * No node is copied until the next write to this tree.
+     */
+    snapshot() : TreeSnapshot<T> {
+        return this._snapshots[ this._snapshots.length - 1 ]?.snapshot ?? new TreeSnapshot<T>( this );
+    }
+
+    /**
+     * Stops at the first node passing the predicate.
+     * @throws {TypeError} For a non-function `predicate`
+     * @see TraversalOptions
+     */
+    some( predicate : IterationCallback<T, unknown>, options? : TraversalOptions ) : boolean {
+        validateCallback( predicate, 'some' );
+        for( const node of this.genTraversal( options ) ) {
+            if( predicate( node.value, node, this ) ) { return true }
+        }
+        return false;
+    }
+
+    /**
+     * Moves the nodes of this tree into two new trees sharing this tree's options: nodes before the split point into the first and the rest into the second.
+     * Node instances are kept. Detached nodes remain associated with this tree, which is left empty.
+     * 
+     * @param {SplitPoint<T>} at - `{ index }` accepts a negative integer to count from the end. `{ value }` splits ahead of the first node not sorted before `value`.
+     * @throws {TypeError} For an invalid `at` argument.
+     */
+    splitAt( at : SplitPoint<T> ) : [ Tree<T>, Tree<T> ] {
+        let index : number;
+        if( at !== null && typeof at === 'object' && 'index' in at && Number.isInteger( at.index ) ) {
+            index = at.index < 0
+                ? Math.max( this.size + at.index, 0 )
+                : Math.min( at.index, this.size );
+        } else if( at !== null && typeof at === 'object' && 'value' in at ) {
+            index = this._bisect( at.value );
+        } else {
+            throw new TypeError( 'Invalid `at` argument supplied to `splitAt` method. `{ index: int }` or `{ value: T }` expected.' );
+        }
+        const trees : [ Tree<T>, Tree<T> ] = [ this._makeEmptyCopy(), this._makeEmptyCopy() ];
+        const nodes = this._release( trees );
+        trees[ 0 ]._adopt( nodes.slice( 0, index ) );
+        trees[ 1 ]._adopt( nodes.slice( index ) );
+        return trees;
+    }
+
+    /**
+     * @returns {Tree<T>} tree holding the values found in exactly one of this and the `other` tree.
+     * @throws {TypeError} For an invalid `other` tree.
+     * @throws {Error} For an `other` tree with differing `isSameValue` or `isValueBefore` criteria.
+     * @see SetOperationOptions
+     */
+    symmetricDifference( other : Tree<T>, options? : SetOperationOptions ) : Tree<T> {
+        return this._mergeWith( other, { left: true, match: false, right: true }, options );
+    }
+
     /**
      * Ensures that changes in node value are balanced
      * 
@@ -666,20 +1594,26 @@ class Tree<T = unknown> {
         throwOnInvalidNode( node );
         throwOnNodeTreeMismatch( this, node );
         if( node.isDetached ) { return this }
-        const { index: oldIndex } = node;
-        this._nodes.splice( oldIndex, 1 );
-        const iIndex = this._findInsertionIndex( node.value );
-        if( iIndex === -1 ) { return this }
-        if( iIndex === oldIndex ) {
-            this._nodes.splice( oldIndex, 0, node );
-            return this;
-        }
-        this._nodes.splice( iIndex, 0, node );
-        for( let [ i, n ] = iIndex < oldIndex ? [ iIndex, oldIndex ] : [ oldIndex, iIndex ]; i <= n; i++ ) {
-            node = this._nodes[ i ];
-            node[ nodeAccessMap.get( node ).index ] = i;
+        let oldIndex = -1;
+        if( sizeOf( node ) ) {
+            oldIndex = node.index;
+            const prevNode = predecessorOf( node );
+            const nextNode = successorOf( node );
+            const minComparison = this._allowDuplicates ? 0 : 1;
+            if( ( !prevNode || this.compare( node.value, prevNode ) >= minComparison ) &&
+                ( !nextNode || this.compare( node.value, nextNode ) === -1 )
+            ) {
+                this._publish( 'synchronize', node, oldIndex, oldIndex );
+                return this;
+            }
+            this._unlink( node );
         }
-        return this._scheduleRotation();
+        this._modCount++;
+        const iIndex = this._findInsertionIndex( node.value );
+        iIndex !== -1 && this._link( node, iIndex );
+        this._scheduleRotation();
+        this._publish( 'synchronize', node, oldIndex, iIndex );
+        return this;
     }
 
     /**
@@ -700,120 +1634,628 @@ class Tree<T = unknown> {
         if( typeof cb !== 'function' ) {
             throw new TypeError( 'Invalid `cb` argument supplied to `traverse` method. Void function expected' );
         }
-        this.rotate();
         const gen = this.genTraversal( options );
         for( let it = gen.next(); !it.done; it = gen.next() ) { cb( it.value ) }
         return nodes;
     }
 
-    protected _empty() {
-        const nodes = this._nodes;
-        do {
-            const node = nodes.pop();
-            if( !node ) { break }
-            node.free();
-        } while( true );
-        return this;
+    /**
+     * Serializes this tree's values in left-to-right in-order sequence alongside its `allowDuplicates` mode.
+     * Also invoked by `JSON.stringify(...)`.
+     * 
+     * @throws {TypeError} For an invalid `replacer` option
+     * @see TreeJSONOptions
+     */
+    toJSON<V = T>( options? : TreeJSONOptions<T, V> ) : TreeJSON<V> {
+        const {
+            replacer = undefined,
+            shape = false
+        } = options !== null && typeof options === 'object' ? options : EMPTY_OBJ as TreeJSONOptions<T, V>;
+        if( typeof replacer !== 'undefined' && typeof replacer !== 'function' ) {
+            throw new TypeError( 'Invalid `replacer` option supplied to `toJSON` method. Function expected or leave it unset.' );
+        }
+        const nodes = this._collectNodes();
+        const json : TreeJSON<V> = {
+            allowDuplicates: this._allowDuplicates,
+            values: replacer
+                ? nodes.map(( node, i ) => replacer( node.value, i ) )
+                : nodes.map(({ value }) => value as unknown as V )
+        };
+        if( shape ) { json.shape = collectPreOrderIndexes( this._root ) }
+        return json;
     }
-    
-    protected _findInsertionIndex( value : T ) : number {
-        if( !this._nodes.length ) { return 0 }
-        let start = 0;
-        let end = this._nodes.length - 1;
-        let mid, node;
-        do {
-            mid = Math.floor( ( start + end ) / 2 );
-            node = this._nodes[ mid ];
-            switch( this.compare( value, node ) ) {
-                case -1: { 
-                    if( mid === 0 ) { return 0 }
-                    const compPrevVal = this.compare( value, this._nodes[ mid - 1 ] );
-                    if( compPrevVal === 1 ) { return mid }
-                    if( compPrevVal === 0 ) { return -1 }
-                    end = mid - 1;
-                    break;
-                }
-                case 1: {
-                    if( mid === this._nodes.length - 1 ) { return this._nodes.length }
-                    const compNextVal = this.compare( value, this._nodes[ mid + 1 ] );
-                    if( compNextVal === -1 ) { return mid + 1 }
-                    if( compNextVal === 0 ) { return -1 }
-                    start = mid + 1;
-                    break;
+
+    /**
+     * Applies the writes made within `tx` as a single logical operation.
+     * Rotation is deferred to the commit, whereupon a single `commit` event carrying all changes is published.
+     * Should `tx` throw, this tree and its nodes are restored to their state prior to `tx` and the error is rethrown.
+     * Nested transactions roll back only their own writes.
+     * 
+     * Note: `tx` is expected to be synchronous. Mutations made directly to value objects cannot be rolled back.
+     * 
+     * @returns {R} the `tx` return value
+     * @throws {TypeError} For a non-function `tx` argument
+     */
+    transaction<R>( tx : ( tree : this ) => R ) : R {
+        if( typeof tx !== 'function' ) {
+            throw new TypeError( 'Invalid `tx` argument supplied to `transaction` method. Function expected.' );
+        }
+        return this._recordStep(() => {
+            const isOutermost = this._journal === null;
+            if( isOutermost ) { this._journal = { changes: [], isReplaying: false, undos: [] } }
+            const journal = this._journal;
+            const nChanges = journal.changes.length;
+            const nUndos = journal.undos.length;
+            const nStepUndos = this._history.step?.length ?? 0;
+            try {
+                return tx( this );
+            } catch( e ) {
+                journal.isReplaying = true;
+                while( journal.undos.length > nUndos ) { journal.undos.pop()() }
+                journal.isReplaying = false;
+                journal.changes.length = nChanges;
+                this._history.step && ( this._history.step.length = nStepUndos );
+                throw e;
+            } finally {
+                if( isOutermost ) {
+                    this._journal = null;
+                    !this._isBalanced && this._applyRebalancePolicy();
+                    journal.changes.length && this._publisher.publish( 'commit', journal.changes );
                 }
-                default: return -1;
             }
-        } while( true );
+        });
     }
 
-    protected *_genPostOrder(
-        direction : TraversalDirection = TraversalDirection.RIGHT,
-        traversalLength : number = undefined,
-        startNode : TreeNode<T> = undefined
-    ) : Generator<TreeNode<T>, void> {
-        direction === TraversalDirection.RIGHT
-            ? yield* this._ltrPostOrder( startNode, traversalLength )
-            : yield* this._rtlPostOrder( startNode, traversalLength )
+    /**
+     * Reverts the last recorded step if any. The original node instances are restored.
+     * @throws {Error} During a transaction
+     */
+    undo() {
+        this._replayStep( this._history.undos, this._history.redos ) && this._publish( 'undo' );
+        return this;
     }
 
-    protected *_genPreOrder(
-        direction : TraversalDirection = TraversalDirection.RIGHT,
-        traversalLength : number = null,
-        startNode : TreeNode<T> = null
-    ) :  Generator<TreeNode<T>, void> {
-        direction === TraversalDirection.RIGHT
-            ? yield* this._ltrPreOrder( startNode, traversalLength )
-            : yield* this._rtlPreOrder( startNode, traversalLength )
+    /**
+     * @returns {Tree<T>} tree holding the values found in either this or the `other` tree.
+     * @throws {TypeError} For an invalid `other` tree.
+     * @throws {Error} For an `other` tree with differing `isSameValue` or `isValueBefore` criteria.
+     * @see SetOperationOptions
+     */
+    union( other : Tree<T>, options? : SetOperationOptions ) : Tree<T> {
+        return this._mergeWith( other, { left: true, match: true, right: true }, options );
     }
 
-    protected _insertNodeAt(
-        node : TreeNode<T>,
-        insertionIndex : number = null
-    ) {
-        /* istanbul ignore next */
+    /**
+     * Uses the same `isSameValue` and `isValueBefore` criteria as `this.compare(...)`.
+     * @returns {number} index of the first node whose value is sorted after `value`. Returns `tree.size` if none found.
+     */
+    upperBound( value : T ) : number { return this._bisect( value, true ) }
+
+    /** Reassociates `nodes` in left-to-right in-order sequence with this empty tree and links them into a complete tree. */
+    protected _adopt( nodes : Array<TreeNode<T>> ) {
+        this._freezeSnapshots();
+        for( let i = 0, nLen = nodes.length; i < nLen; i++ ) {
+            const node = nodes[ i ];
+            node[ NODE_TOKENS.tree ] = this;
+            node[ NODE_TOKENS.index ] = i;
+            resetLinks( node );
+        }
+        this._root = this._makeRotation( nodes );
+        this._root && ( this._root[ NODE_TOKENS.root ] = null );
+        return this;
+    }
+
+    /** Rotates this tree or arranges for its rotation as its rebalance policy dictates. */
+    private _applyRebalancePolicy() {
+        const policy = this._rebalancePolicy;
+        switch( policy ) {
+            case 'immediate': return this.rotate();
+            case 'manual': return this;
+            case 'microtask': {
+                if( this._isRotationPending ) { return this }
+                this._isRotationPending = true;
+                queueMicrotask(() => this._isRotationPending && this.rotate() );
+                return this;
+            }
+        }
+        if( 'delay' in policy ) {
+            if( this._isRotationPending ) { return this }
+            this._isRotationPending = true;
+            this._autoRotateTimer = setTimeout( () => this.rotate(), policy.delay );
+            this._autoRotateTimer.unref?.();
+            return this;
+        }
+        if( 'mutations' in policy ) {
+            return this._mutationCount >= policy.mutations ? this.rotate() : this;
+        }
+        return heightOf( this._root ) > policy.heightFactor * Math.log2( this.size + 1 )
+            ? this.rotate()
+            : this;
+    }
+
+    /**
+     * Binary searches the entire tree for the index of the first node whose value is not sorted before `value` (lower bound).
+     * @param {boolean} [isUpper] - when set, finds the first node whose value is sorted after `value` instead (upper bound).
+     */
+    protected _bisect( value : T, isUpper : boolean = false ) : number {
+        let index = 0;
+        let comparison;
+        for( let node = this._root; node !== null; ) {
+            comparison = this.compare( value, node );
+            if( comparison === 1 || ( isUpper && comparison === 0 ) ) {
+                index += sizeOf( leftOf( node ) ) + 1;
+                node = rightOf( node );
+            } else {
+                node = leftOf( node );
+            }
+        }
+        return index;
+    }
+
+    /** @returns {number} index of the first node whose key is not sorted before `key` */
+    private _bisectKey( key : K ) : number {
+        let index = 0;
+        for( let node = this._root; node !== null; ) {
+            const nodeKey = this._key( node.value );
+            if( isSameDefaultFn( key, nodeKey ) || isBeforeDefaultFn( key, nodeKey, this._strictOrder ) ) {
+                node = leftOf( node );
+            } else {
+                index += sizeOf( leftOf( node ) ) + 1;
+                node = rightOf( node );
+            }
+        }
+        return index;
+    }
+
+    /** Withdraws any rotation pending on a timer or a microtask. */
+    private _cancelRotation() {
+        if( !this._isRotationPending ) { return this }
+        this._isRotationPending = false;
+        clearTimeout( this._autoRotateTimer );
+        this._autoRotateTimer = null;
+        return this;
+    }
+
+    /** @returns {Array<TreeNode<T>>} currently accessible nodes in left-to-right in-order sequence */
+    protected _collectNodes() : Array<TreeNode<T>> {
+        const nodes = [];
+        for( let node = this._nodeAt( 0 ); node; node = successorOf( node ) ) { nodes.push( node ) }
+        return nodes;
+    }
+
+    /** Ends the history step underway. Records it as undoable unless empty or dropped. */
+    private _commitStep() {
+        const history = this._history;
+        const step = history.step;
+        history.step = null;
+        if( history.isDiscarding ) {
+            history.isDiscarding = false;
+            return;
+        }
+        if( !step?.length ) { return }
+        history.undos.push( step );
+        history.undos.length > history.depth && history.undos.shift();
+        history.redos = [];
+    }
+
+    /** Discards all active nodes. Publishes the `clear` event if any found. */
+    protected _empty() {
+        const nodes = this._collectNodes();
+        if( !nodes.length ) { return this }
+        this._freezeSnapshots();
+        this._journalLinks();
+        this._root = null;
+        for( let i = 0, nLen = nodes.length; i < nLen; i++ ) {
+            const node = nodes[ i ];
+            node[ NODE_TOKENS.index ] = i;
+            resetLinks( node );
+        }
+        for( let i = nodes.length; i--; ) { nodes[ i ].free() }
+        this._publish( 'clear', nodes );
+        return this;
+    }
+    
+    /** Copies the values of this tree into the snapshots taken since the last write. Precedes every write. */
+    private _freezeSnapshots() {
+        if( !this._snapshots.length ) { return }
+        const copy = PersistentTree.fromTree( this );
+        for( const { setCopy } of this._snapshots ) { setCopy( copy ) }
+        this._snapshots = [];
+    }
+
+    /** Copies the values of this tree into `snapshot` through `setCopy` ahead of the next write. */
+    private _registerSnapshot( snapshot : TreeSnapshot<T>, setCopy : PendingSnapshot<T>[ 'setCopy' ] ) {
+        this._snapshots.push({ setCopy, snapshot });
+    }
+
+    /** @returns {number} insertion index for `value` or -1 if `value` matches an existing value while not allowing duplicates. */
+    protected _findInsertionIndex( value : T ) : number {
+        if( this._allowDuplicates ) { return this._bisect( value, true ) }
+        let index = 0;
+        for( let node = this._root; node !== null; ) {
+            switch( this.compare( value, node ) ) {
+                case -1: node = leftOf( node ); break;
+                case 1: {
+                    index += sizeOf( leftOf( node ) ) + 1;
+                    node = rightOf( node );
+                    break;
+                }
+                default: return -1;
+            }
+        }
+        return index;
+    }
+
+    private *_genFiltered( predicate : IterationCallback<T, unknown>, options : TraversalOptions ) : Generator<T> {
+        for( const node of this.genTraversal( options ) ) {
+            if( predicate( node.value, node, this ) ) { yield node.value }
+        }
+    }
+
+    /** @param {number} traversalLength - number of nodes to traverse from the `startNode` inclusive */
+    protected *_genInOrder(
+        direction : TraversalDirection,
+        traversalLength : number,
+        startNode : TreeNode<T>
+    ) : Generator<TreeNode<T>, void> {
+        const next = direction === TraversalDirection.RIGHT ? successorOf : predecessorOf;
+        for( let node = startNode; node && traversalLength > 0; node = next( node ), traversalLength-- ) {
+            yield node;
+        }
+    }
+
+    /**
+     * Breadth-first traversal from the tree root. Yields from the `startNode` onward when supplied.
+     * @param {number} [traversalLength] - maximum number of nodes to yield
+     */
+    protected *_genLevelOrder(
+        direction : TraversalDirection = TraversalDirection.RIGHT,
+        traversalLength : number = this.size,
+        startNode : TreeNode<T> = undefined
+    ) : Generator<TreeNode<T>, void> {
+        const [ first, second ] = direction === TraversalDirection.RIGHT
+            ? [ leftOf, rightOf ]
+            : [ rightOf, leftOf ];
+        const queue = this._root ? [ this._root ] : [];
+        let isYielding = !startNode;
+        for( let i = 0; i < queue.length && traversalLength > 0; i++ ) {
+            const node = queue[ i ];
+            first( node ) && queue.push( first( node ) );
+            second( node ) && queue.push( second( node ) );
+            if( !isYielding && node !== startNode ) { continue }
+            isYielding = true;
+            traversalLength--;
+            yield node;
+        }
+    }
+
+    private *_genMapped<R>( cb : IterationCallback<T, R>, options : TraversalOptions ) : Generator<R> {
+        for( const node of this.genTraversal( options ) ) { yield cb( node.value, node, this ) }
+    }
+
+    protected *_genPostOrder(
+        direction : TraversalDirection = TraversalDirection.RIGHT,
+        traversalLength : number = undefined,
+        startNode : TreeNode<T> = undefined
+    ) : Generator<TreeNode<T>, void> {
+        direction === TraversalDirection.RIGHT
+            ? yield* this._ltrPostOrder( startNode, traversalLength )
+            : yield* this._rtlPostOrder( startNode, traversalLength )
+    }
+
+    protected *_genPreOrder(
+        direction : TraversalDirection = TraversalDirection.RIGHT,
+        traversalLength : number = null,
+        startNode : TreeNode<T> = null
+    ) :  Generator<TreeNode<T>, void> {
+        direction === TraversalDirection.RIGHT
+            ? yield* this._ltrPreOrder( startNode, traversalLength )
+            : yield* this._rtlPreOrder( startNode, traversalLength )
+    }
+
+    protected *_genTraversal(
+        options : TraversalOptions = EMPTY_OBJ
+    ) : Generator<TreeNode<T>> {
+        if( this._root === null ) { return }
+        const len = this.size;
+        let {
+            direction = TraversalDirection.RIGHT,
+            maxLength = undefined,
+            order = TraversalOrder.IN,
+            start = undefined
+        } = options;
+        if( direction !== TraversalDirection.LEFT && direction !== TraversalDirection.RIGHT ) {
+            throw new Error( 'Invalid `direction` option supplied to `traverse` method. A member of `TraversalDirection` expected or leave it unset.' );
+        }
+        if( typeof maxLength !== 'undefined' && !isNumber( maxLength ) ) {
+            throw new TypeError( 'Invalid `maxLength` option supplied to `traverse` method. Integer expected or leave it unset.' );
+        }
+        /* istanbul ignore else */
+        if( maxLength === 0  ) { return }
+        if( isNumber( start ) ) {
+            if( start < 0 ) { start = len + start }
+            if( start < 0 || start >= len ) { start = undefined }
+        } else if( typeof start !== 'undefined' ) {
+            throw new TypeError( 'Invalid `start node index` option supplied to `traverse` method. Integer expected or leave it unset.' );
+        }
+        const startNode = typeof start === 'undefined' ? undefined : this._nodeAt( start );
+        switch( order ) {
+            case TraversalOrder.IN: {
+                maxLength = maxLength ?? len;
+                if( direction === TraversalDirection.RIGHT ) {
+                    start = start ?? 0;
+                    let end = start + maxLength;
+                    if( end > len ) { end = len };
+                    yield* this._genInOrder( direction, end - start, startNode ?? this._nodeAt( 0 ) );
+                    break;
+                }
+                start = start ?? len - 1;
+                let end = start - maxLength;
+                end = ( end < 0 ? 0 : end ) - 1;
+                yield* this._genInOrder( direction, start - end, startNode ?? this._nodeAt( len - 1 ) );
+                break;
+            }
+            case TraversalOrder.LEVEL: yield* this._genLevelOrder( direction, maxLength, startNode ); break;
+            case TraversalOrder.POST: yield* this._genPostOrder( direction, maxLength, startNode ); break;
+            case TraversalOrder.PRE: yield* this._genPreOrder( direction, maxLength, startNode );
+            break;
+            default: throw new Error( 'Unknown order detected. Member of the `TraversalOrder` expected or leave it unset.' );
+        }
+    }
+
+    protected *_genValues() : Generator<T> {
+        for( const node of this.genTraversal() ) { yield node.value }
+    }
+
+    protected _insertNodeAt(
+        node : TreeNode<T>,
+        insertionIndex : number = null
+    ) {
+        /* istanbul ignore next */
         if( insertionIndex === -1 ) { return this }
         /* istanbul ignore else */
         if( node.index !== insertionIndex ) {
-            node[ nodeAccessMap.get( node ).index ] = insertionIndex;
+            node[ NODE_TOKENS.index ] = insertionIndex;
+        }
+        node.transition === Transition.JOINING && this._journalNodeState(
+            node, node[ NODE_TOKENS.isWatchingTree ] ? this : null, true
+        );
+        this._updateNodeAt( node, insertionIndex );
+        this._publish( 'insert', node, insertionIndex );
+        node.transition === Transition.JOINING && this._publish( 'join', node, insertionIndex );
+        return this;
+    }
+
+    /** is set during transactions and while the history is on */
+    private _isJournaling() {
+        return this._journal !== null || ( this._history.depth > 0 && !this._history.isDiscarding );
+    }
+
+    /** Records the currently linked nodes for relinking during a transaction rollback or an undo. */
+    private _journalLinks() {
+        if( !this._isJournaling() ) { return }
+        const nodes = this._collectNodes();
+        this._journalUndo(() => {
+            this._journalLinks();
+            for( const node of this._collectNodes() ) { resetLinks( node ) }
+            nodes.forEach(( node, i ) => { node[ NODE_TOKENS.index ] = i } );
+            this._root = this._makeRotation( nodes );
+            this._root && ( this._root[ NODE_TOKENS.root ] = null );
+        });
+    }
+
+    /**
+     * Records the current association, detachment and value states of `node` for restoration during a transaction rollback or an undo.
+     * @param [tree] - tree association to restore. Defaults to the current association.
+     * @param [isDetached] - detachment to restore. Defaults to the current detachment.
+     */
+    private _journalNodeState(
+        node : TreeNode<T>,
+        tree : Tree<T> = node.tree,
+        isDetached : boolean = node.isDetached
+    ) {
+        if( !this._isJournaling() ) { return }
+        const value = node.value;
+        this._journalUndo(() => {
+            this._journalNodeState( node );
+            node[ NODE_TOKENS.tree ] = tree;
+            node[ NODE_TOKENS.isDetached ] = isDetached;
+            node[ NODE_TOKENS.value ] = value;
+        });
+    }
+
+    /**
+     * Records `undo` for replay during a transaction rollback and into the history step underway if any.
+     * No op outside of transactions while the history is off.
+     */
+    private _journalUndo( undo : () => void ) {
+        const journal = this._journal;
+        if( journal?.isReplaying ) { return }
+        journal?.undos.push( undo );
+        const history = this._history;
+        history.depth && !history.isDiscarding && ( history.step ??= [] ).push( undo );
+    }
+
+    /**
+     * Links an unlinked node into the in-order `index` position and rebalances its new ancestry.
+     * The resulting shape is height-balanced but not necessarily complete until the next rotation.
+     */
+    protected _link( node : TreeNode<T>, index : number ) {
+        this._freezeSnapshots();
+        this._isJournaling() && this._journalUndo(() => this._unlink( node ) );
+        resetLinks( node, 1 );
+        if( this._root === null ) {
+            this._root = node;
+            return;
         }
-        return this._updateNodeAt( insertionIndex, node );
+        let parent = this._root;
+        do {
+            const leftSize = sizeOf( leftOf( parent ) );
+            if( index <= leftSize ) {
+                if( leftOf( parent ) === null ) {
+                    parent[ NODE_TOKENS.left ] = node;
+                    break;
+                }
+                parent = leftOf( parent );
+            } else {
+                index -= leftSize + 1;
+                if( rightOf( parent ) === null ) {
+                    parent[ NODE_TOKENS.right ] = node;
+                    break;
+                }
+                parent = rightOf( parent );
+            }
+        } while( true );
+        this._retrace( parent );
     }
 
     /**
+     * @param {Array<TreeNode<T>>} [nodes] in-order nodes to arrange. Defaults to the currently accessible nodes.
      * @param {number} [start] start rotation at this index
      * @param {number} [end] end rotation at this index
      * @returns {TreeNode<T>} tree/subtree root
      */
     protected _makeRotation(
+        nodes : Array<TreeNode<T>> = this._collectNodes(),
         start : number = 0,
-        end : number = this._nodes.length - 1
+        end : number = nodes.length - 1
     ) : TreeNode<T> {
         if( start > end ) { return null }
         const mid = Math.floor( ( start + end ) / 2 );
-        const root = this._nodes[ mid ];
+        const root = nodes[ mid ];
         /* istanbul ignore else */
         if( root ) {
-            root[ nodeAccessMap.get( root ).left ] = this._makeRotation( start, mid - 1 );
-            root[ nodeAccessMap.get( root ).right ] = this._makeRotation( mid + 1, end );
+            root[ NODE_TOKENS.left ] = this._makeRotation( nodes, start, mid - 1 );
+            root[ NODE_TOKENS.right ] = this._makeRotation( nodes, mid + 1, end );
+            updateLinkMetrics( root );
         }
         return root;
     }
 
+    /**
+     * Walks this and the `other` tree in left-to-right in-order sequence, pairing off nodes holding matching values one-to-one.
+     * Unpaired nodes of this tree are kept if `keeps.left`, paired nodes if `keeps.match` and unpaired nodes of the `other` tree if `keeps.right`.
+     * Under duplicate values, this yields the multiset max (union), min (intersection) and count subtraction (differences).
+     */
+    protected _mergeWith(
+        other : Tree<T>,
+        keeps : { left : boolean, match : boolean, right : boolean },
+        options : SetOperationOptions = EMPTY_OBJ
+    ) : Tree<T> {
+        throwOnCriteriaMismatch( this, other );
+        const result : Array<TreeNode<T>> = [];
+        const dropped : Array<TreeNode<T>> = [];
+        const added : Array<TreeNode<T>> = [];
+        let node = this._nodeAt( 0 );
+        let otherNode = other._nodeAt( 0 );
+        for( let prevOtherNode : TreeNode<T> = null; node || otherNode; ) {
+            if( otherNode && prevOtherNode && !this._allowDuplicates && this._equalsNodeVal( otherNode.value, prevOtherNode ) ) {
+                otherNode = successorOf( otherNode );
+                continue;
+            }
+            const order = !otherNode ? -1 : !node ? 1 : this.compare( node.value, otherNode );
+            if( order !== 1 ) {
+                ( order === 0 ? keeps.match : keeps.left ) ? result.push( node ) : dropped.push( node );
+                node = successorOf( node );
+            }
+            if( order === -1 ) { continue }
+            if( order === 1 && keeps.right ) {
+                result.push( otherNode );
+                added.push( otherNode );
+            }
+            prevOtherNode = otherNode;
+            otherNode = successorOf( otherNode );
+        }
+        if( options?.inPlace ) {
+            return this.transaction(() => {
+                for( const node of dropped ) { node.free() }
+                for( const { value } of added ) { this.insert( value ) }
+                return this;
+            });
+        }
+        const tree = this._makeEmptyCopy();
+        tree._root = tree._makeRotation( result.map(({ value }, i ) => new TreeNode<T>( tree, value, i ) ) );
+        return tree;
+    }
+
+    /** @returns {Tree<T>} new empty tree sharing this tree's options */
+    protected _makeEmptyCopy() : Tree<T> {
+        return new Tree<T>( undefined, {
+            allowDuplicates: this._allowDuplicates,
+            comparator: this._comparator,
+            isSameValue: this._isSameValue,
+            isValueBefore: this._isValueBefore,
+            key: this._key,
+            rebalance: this._rebalancePolicy,
+            strictOrder: this._strictOrder
+        } );
+    }
+
+    /** @returns {TreeNode<T>} node at the left-to-right in-order `index` position. Returns `undefined` if out of range. */
+    protected _nodeAt( index : number ) : TreeNode<T> {
+        let node = this._root;
+        while( node !== null ) {
+            const leftSize = sizeOf( leftOf( node ) );
+            if( index === leftSize ) { return node }
+            if( index < leftSize ) {
+                node = leftOf( node );
+            } else {
+                index -= leftSize + 1;
+                node = rightOf( node );
+            }
+        }
+    }
+
+    /**
+     * Unlinks a linked node and rebalances its former ancestry.
+     * The node's last index is retained.
+     */
+    protected _unlink( node : TreeNode<T> ) {
+        this._freezeSnapshots();
+        const index = node.index;
+        this._isJournaling() && this._journalUndo(() => this._link( node, index ) );
+        node[ NODE_TOKENS.index ] = index;
+        const left = leftOf( node );
+        const right = rightOf( node );
+        const parent = rootOf( node );
+        let retraceFrom : TreeNode<T> = parent;
+        if( left === null || right === null ) {
+            this._replaceChild( parent, node, left ?? right );
+        } else {
+            let successor = right;
+            while( leftOf( successor ) !== null ) { successor = leftOf( successor ) }
+            retraceFrom = successor;
+            if( successor !== right ) {
+                retraceFrom = rootOf( successor );
+                this._replaceChild( retraceFrom, successor, rightOf( successor ) );
+                successor[ NODE_TOKENS.right ] = right;
+            }
+            successor[ NODE_TOKENS.left ] = left;
+            this._replaceChild( parent, node, successor );
+        }
+        resetLinks( node );
+        retraceFrom !== null && this._retrace( retraceFrom );
+    }
+
     private _equalsNodeVal( value : T, node : TreeNode<T> ) {
-        return this._isSameValue === Tree.DEFAULT
+        if( this._comparator !== null ) { return signOf( this._comparator( value, node.value ) ) === 0 }
+        if( this._isSameValue !== Tree.DEFAULT ) { return this._isSameValue( value, node, this ) }
+        return this._key === null
             ? isSameValueDefaultFn( value, node, this )
-            : this._isSameValue( value, node, this );
+            : isSameDefaultFn( this._key( value ), this._key( node.value ) );
     }
 
     private _isLessThanNodeVal( value : T, node : TreeNode<T> ) {
-        return this._isValueBefore === Tree.DEFAULT
+        if( this._comparator !== null ) { return signOf( this._comparator( value, node.value ) ) === -1 }
+        if( this._isValueBefore !== Tree.DEFAULT ) { return this._isValueBefore( value, node, this ) }
+        return this._key === null
             ? isValueBeforeDefaultFn( value, node, this )
-            : this._isValueBefore( value, node, this );
+            : isBeforeDefaultFn( this._key( value ), this._key( node.value ), this._strictOrder );
     }
 
     private *_ltrPostOrder(
-        startNode : TreeNode<T> = this._nodes[ 0 ],
-        traversalLength : number = this._nodes.length,
+        startNode : TreeNode<T> = this._nodeAt( 0 ),
+        traversalLength : number = this.size,
         visited : { count : number } = { count: 0 },
         isChild : boolean = false
     ) : Generator<TreeNode<T>, void> {
@@ -863,6 +2305,46 @@ class Tree<T = unknown> {
         yield* this._ltrPreOrder( startNode, traversalLength, visited, root.right );
     }
 
+    /** Publishes a mutation event. Records it instead during a transaction. Ends the history step underway unless grouped. */
+    private _publish<E extends Exclude<TreeEventName, 'commit'>>(
+        eventName : E,
+        ...args : Parameters<TreeEventMap<T>[ E ]>
+    ) {
+        this._history.level === 0 && this._commitStep();
+        if( this._journal === null ) {
+            this._publisher.publish( eventName, ...args );
+            return;
+        }
+        !this._journal.isReplaying && this._journal.changes.push({ type: eventName, args } as TreeChange<T> );
+    }
+
+    /** @returns {TreeNode<T>} root of the rebalanced subtree */
+    private _rebalance( node : TreeNode<T> ) : TreeNode<T> {
+        updateLinkMetrics( node );
+        const balance = heightOf( leftOf( node ) ) - heightOf( rightOf( node ) );
+        if( balance > 1 ) {
+            const left = leftOf( node );
+            heightOf( leftOf( left ) ) < heightOf( rightOf( left ) ) && this._rotateLeft( left );
+            return this._rotateRight( node );
+        }
+        if( balance < -1 ) {
+            const right = rightOf( node );
+            heightOf( rightOf( right ) ) < heightOf( leftOf( right ) ) && this._rotateRight( right );
+            return this._rotateLeft( node );
+        }
+        return node;
+    }
+
+    /** Groups the writes of `write` into a single history step. */
+    private _recordStep<R>( write : () => R ) : R {
+        this._history.level++;
+        try {
+            return write();
+        } finally {
+            --this._history.level === 0 && this._commitStep();
+        }
+    }
+
     protected _refresh() {
         if( !this.size ) { return this }
         const values = this.values;
@@ -871,9 +2353,101 @@ class Tree<T = unknown> {
         return this;
     }
 
+    /**
+     * Unlinks all nodes of this tree for adoption by the `recipients` trees without freeing them.
+     * A transaction rollback restores them to this tree and empties the `recipients`.
+     * @returns {Array<TreeNode<T>>} released nodes in left-to-right in-order sequence
+     */
+    protected _release( recipients : Array<Tree<T>> ) : Array<TreeNode<T>> {
+        const nodes = this._collectNodes();
+        if( !nodes.length ) { return nodes }
+        this._freezeSnapshots();
+        this._journalUndo(() => {
+            for( const tree of recipients ) { tree._root = null }
+            this._adopt( nodes );
+        });
+        this._root = null;
+        this._modCount++;
+        this.clearHistory();
+        this._publish( 'clear', nodes );
+        return nodes;
+    }
+
+    /**
+     * Replays the last step of `steps` in reverse while recording its reversal into `reversals`.
+     * @returns {boolean} true if a step was found
+     * @throws {Error} During a transaction
+     */
+    private _replayStep(
+        steps : Array<Array<() => void>>,
+        reversals : Array<Array<() => void>>
+    ) : boolean {
+        if( this._journal !== null ) {
+            throw new Error( 'Cannot undo or redo writes during a transaction.' );
+        }
+        const step = steps.pop();
+        if( !step ) { return false }
+        const history = this._history;
+        this._freezeSnapshots();
+        history.level++;
+        history.step = [];
+        try {
+            for( let i = step.length; i--; ) { step[ i ]() }
+        } finally {
+            history.level--;
+            reversals.push( history.step );
+            history.step = null;
+            this._modCount++;
+            this._scheduleRotation();
+        }
+        return true;
+    }
+
+    private _replaceChild(
+        parent : TreeNode<T>,
+        child : TreeNode<T>,
+        newChild : TreeNode<T>
+    ) {
+        if( parent === null ) {
+            this._root = newChild;
+            newChild !== null && ( newChild[ NODE_TOKENS.root ] = null );
+            return;
+        }
+        leftOf( parent ) === child
+            ? ( parent[ NODE_TOKENS.left ] = newChild )
+            : ( parent[ NODE_TOKENS.right ] = newChild );
+    }
+
+    /** rebalances the subtrees rooted at `node` and at each of its ancestors */
+    private _retrace( node : TreeNode<T> ) {
+        for( ; node !== null; node = rootOf( node ) ) { node = this._rebalance( node ) }
+    }
+
+    /** @returns {TreeNode<T>} the new subtree root */
+    private _rotateLeft( node : TreeNode<T> ) : TreeNode<T> {
+        const pivot = rightOf( node );
+        node[ NODE_TOKENS.right ] = leftOf( pivot );
+        this._replaceChild( rootOf( node ), node, pivot );
+        pivot[ NODE_TOKENS.left ] = node;
+        updateLinkMetrics( node );
+        updateLinkMetrics( pivot );
+        return pivot;
+    }
+
+    /** @returns {TreeNode<T>} the new subtree root */
+    private _rotateRight( node : TreeNode<T> ) : TreeNode<T> {
+        const pivot = leftOf( node );
+        node[ NODE_TOKENS.left ] = rightOf( pivot );
+        this._replaceChild( rootOf( node ), node, pivot );
+        pivot[ NODE_TOKENS.right ] = node;
+        updateLinkMetrics( node );
+        updateLinkMetrics( pivot );
+        return pivot;
+    }
+
     private *_rtlPostOrder(
-        startNode : TreeNode<T> = this._nodes[ this._nodes.length - 1 ],
-        traversalLength : number = this._nodes.length,
+        startNode : TreeNode<T> = this._nodeAt( this.size - 1 ),
+        traversalLength : number = this.size,
         visited : { count : number } = { count: 0 },
         isChild : boolean = false
     ) : Generator<TreeNode<T>, void> {
@@ -926,38 +2500,1014 @@ class Tree<T = unknown> {
         yield* this._rtlPreOrder( startNode, traversalLength, visited, root.left );
     }
 
-    protected _scheduleRotation( delay : number = 3e4 ) {
-        if( !this._isBalanced ) { return this }
+    /** Records a write and rotates this tree as its rebalance policy dictates. */
+    protected _scheduleRotation() {
         this._isBalanced = false;
-        this._autoRotateTimer = setTimeout( () => this.rotate(), delay );
-        return this;
+        this._mutationCount++;
+        return this._journal ? this : this._applyRebalancePolicy();
+    }
+
+    /**
+     * Binary searches the tree section between the `start` and `end` indexes for a node matching `value`.
+     * @param {boolean} [isLastIndex] - when set, the last matching node is sought if `allowDuplicates` is set.
+     */
+    protected _searchIndex(
+        value : T,
+        start : number,
+        end : number,
+        isLastIndex : boolean = false
+    ) : number {
+        let last = this.size - 1;
+        if( last === -1 || start > last ) { return -1 }
+        if( start < 0 ) {
+            start = last + start + 1;
+            if( start < 0 ) { start = 0 }
+        }
+        if( end > last ) {
+            end = last;
+        } else {
+            if( end < 0 ) { end = last + end + 1 }
+            if( end <= start ) {
+                return this.compare( value, this._nodeAt( start ) ) === 0
+                    ? start
+                    : -1
+            }
+        }
+        let index = -1;
+        let offset = 0;
+        let comparison, nodeIndex;
+        for( let node = this._root; node !== null; ) {
+            nodeIndex = offset + sizeOf( leftOf( node ) );
+            comparison = nodeIndex < start
+                ? 1
+                : nodeIndex > end
+                    ? -1
+                    : this.compare( value, node );
+            if( comparison === 0 ) {
+                if( !this._allowDuplicates ) { return nodeIndex }
+                index = nodeIndex;
+                comparison = isLastIndex ? 1 : -1;
+            }
+            if( comparison === -1 ) {
+                node = leftOf( node );
+            } else {
+                offset = nodeIndex + 1;
+                node = rightOf( node );
+            }
+        }
+        return index;
     }
 
-    /** @param [newNode] - Inserts into index when newNode present. Otherwise, removes node at index. */
-    protected _updateNodeAt( index : number, newNode? : TreeNode<T> ) {
-        const nodes = this._nodes;
-        newNode
-            ? nodes.splice( index, 0, newNode )
-            : nodes.splice( index, 1 );
-        for( let i = index, nLen = nodes.length; i < nLen; i++ ) {
-            const node =  nodes[ i ];
-            node[ nodeAccessMap.get( node ).index ] = i;
+    /** @param [insertionIndex] - Links node into this index when present. Otherwise, unlinks node. */
+    protected _updateNodeAt( node : TreeNode<T>, insertionIndex? : number ) {
+        if( typeof insertionIndex !== 'undefined' ) {
+            this._link( node, insertionIndex );
+        } else if( sizeOf( node ) ) {
+            this._unlink( node );
+        } else {
+            return this;
         }
+        this._modCount++;
         return this._scheduleRotation();
     }
 }
 
-
-const isSameValueDefaultFn : Criterion<unknown> = ( value, node ) => Object.is( value, node.value );
+defineTreeInternalsOn( Tree.prototype );
 
 /**
- * Checks if a value is less than the current node's value.
- * Note: uses '>' for string and number values and returns false for the rest.
+ * Bidirectional in-order cursor anchored to a node rather than an index.
+ * It keeps its place across inserts and removals elsewhere in the tree.
  */
-const isValueBeforeDefaultFn : Criterion<unknown> = ( value, node ) => {
-    return isString( value ) || isNumber( value )
-        ? value < node.value
-        : false;
+export class TreeCursor<T = unknown> {
+
+    static DETACHED_NODE_MESSAGE = 'Cannot move a cursor whose node is no longer an accessible part of its tree. Use `cursor.seek(...)` to reposition it.';
+
+    /** is set if the cursor ran past the last node. Only meaningful while no node is current. */
+    private _isPastEnd = false;
+    private _node : TreeNode<T> = null;
+    private _tree : Tree<T>;
+
+    /**
+     * @param {T|TreeNode<T>} [start] - node of the `tree` or value to position this cursor at as in `cursor.seek(...)`. Defaults to the first node.
+     * @throws {TypeError} For an invalid tree
+     * @throws {ReferenceError} For a `start` node which does not belong to the `tree`
+     */
+    constructor( tree : Tree<T>, start? : T | TreeNode<T> ) {
+        if( !Tree.isValid( tree ) ) {
+            throw new TypeError( 'Invalid `tree` argument supplied. Tree expected.' );
+        }
+        this._tree = tree;
+        if( start === undefined ) {
+            this._moveTo( tree.getNodeAt( 0 ), true );
+        } else if( start instanceof TreeNode ) {
+            throwOnNodeTreeMismatch( tree, start );
+            this._node = start;
+        } else {
+            this.seek( start as T );
+        }
+    }
+
+    /**
+     * node this cursor is anchored to. Is null once the cursor runs past either end of the tree.
+     * @readonly
+     */
+    get current() { return this._node }
+
+    /**
+     * is set if the current node got detached from or moved out of this cursor's tree.
+     * @readonly
+     */
+    get isDetached() {
+        return this._node !== null && ( this._node.isDetached || this._node.tree !== this._tree );
+    }
+
+    /** @readonly */
+    get tree() { return this._tree }
+
+    /**
+     * Moves to the in-order successor. Moves to the first node from before the start.
+     * @returns {TreeNode<T>} the new current node. Returns null past the last node.
+     * @throws {ReferenceError} If the current node got detached
+     */
+    next() : TreeNode<T> {
+        this._throwOnDetached();
+        return this._moveTo( this._node
+            ? successorOf( this._node )
+            : this._isPastEnd ? null : this._tree.getNodeAt( 0 ),
+        true );
+    }
+
+    /**
+     * Moves to the in-order predecessor. Moves to the last node from past the end.
+     * @returns {TreeNode<T>} the new current node. Returns null before the first node.
+     * @throws {ReferenceError} If the current node got detached
+     */
+    prev() : TreeNode<T> {
+        this._throwOnDetached();
+        return this._moveTo( this._node
+            ? predecessorOf( this._node )
+            : this._isPastEnd ? this._tree.getNodeAt( -1 ) : null,
+        false );
+    }
+
+    /**
+     * Repositions this cursor at the first node not sorted before `value`. Also recovers a detached cursor.
+     * @returns {TreeNode<T>} the new current node. Returns null if none found.
+     */
+    seek( value : T ) : TreeNode<T> { return this._moveTo( this._tree.ceiling( value ), true ) }
+
+    private _moveTo( node : TreeNode<T> = null, isForward : boolean ) {
+        this._node = node;
+        node === null && ( this._isPastEnd = isForward );
+        return node;
+    }
+
+    private _throwOnDetached() {
+        if( this.isDetached ) { throw new ReferenceError( TreeCursor.DETACHED_NODE_MESSAGE ) }
+    }
+}
+
+/**
+ * Immutable height-balanced tree. Writes return a new version sharing every untouched node with this one (path copying).
+ * Each write costs O(log n) time and space.
+ */
+export class PersistentTree<T = unknown> {
+
+    /**
+     * Copies the values, ordering options and `allowDuplicates` mode of a mutable tree in linear time.
+     * Its custom criteria keep receiving a node of the mutable tree and the mutable tree itself: see `adaptTreeCriterion(...)`.
+     * @throws {TypeError} For an invalid tree
+     */
+    static fromTree<T = unknown>( tree : Tree<T> ) : PersistentTree<T> {
+        if( !Tree.isValid( tree ) ) {
+            throw new TypeError( 'Invalid `tree` argument supplied. Tree expected.' );
+        }
+        const persistentTree = new PersistentTree<T>( undefined, {
+            allowDuplicates: tree.allowDuplicates,
+            comparator: tree.comparator,
+            isSameValue: adaptTreeCriterion( tree.isSameValue, tree ),
+            isValueBefore: adaptTreeCriterion( tree.isValueBefore, tree ),
+            key: tree.key,
+            strictOrder: tree.strictOrder
+        } );
+        persistentTree._root = buildPersistentNode( [ ...tree.values ] );
+        return persistentTree;
+    }
+
+    private _allowDuplicates : boolean;
+    private _comparator : Comparator<T>;
+    private _isSameValue : PersistentTreeOptions<T>["isSameValue"];
+    private _isValueBefore : PersistentTreeOptions<T>["isValueBefore"];
+    private _key : ( value : T ) => unknown;
+    private _root : PersistentNode<T> = null;
+    private _strictOrder : boolean;
+
+    /**
+     * Note: `options.isSameValue` config property uses `Object.is()` equality check out of the box, matching dates by time and arrays by elements
+     * 
+     * @throws {TypeError} for non-iterable values or non-function criteria
+     */
+    constructor(
+        values : Iterable<T> = [],
+        options : PersistentTreeOptions<T> = EMPTY_OBJ
+    ) {
+        const {
+            allowDuplicates = false,
+            comparator = null,
+            isSameValue = Tree.DEFAULT,
+            isValueBefore = Tree.DEFAULT,
+            key = null,
+            strictOrder = false
+        } = options ?? ( EMPTY_OBJ as PersistentTreeOptions<T> );
+        validateCriterion( isSameValue as PersistentCriterion<T>, 'isSameValue' );
+        validateCriterion( isValueBefore as PersistentCriterion<T>, 'isValueBefore' );
+        if( comparator !== null && typeof comparator !== 'function' ) {
+            throw new TypeError( 'Invalid `comparator` supplied. Function expected or leave it unset.' );
+        }
+        if( key !== null && typeof key !== 'function' ) {
+            throw new TypeError( 'Invalid `key` supplied. Function expected or leave it unset.' );
+        }
+        this._allowDuplicates = !!allowDuplicates;
+        this._comparator = comparator;
+        this._key = key;
+        this._isSameValue = isSameValue;
+        this._isValueBefore = isValueBefore;
+        this._strictOrder = !!strictOrder;
+        if( !values ) { return }
+        if( typeof values[ Symbol.iterator ] !== 'function' ) {
+            throw new TypeError( 'Invalid `values` argument supplied. Iterable expected.' );
+        }
+        const nodes = Array.from( values, value => makePersistentNode( value, null, null ) )
+            .sort(( node, otherNode ) => this.compare( node.value, otherNode ) );
+        const sortedValues = [];
+        for( let i = 0, nLen = nodes.length; i < nLen; i++ ) {
+            if( this._allowDuplicates || i === 0 || this.compare( nodes[ i ].value, nodes[ i - 1 ] ) !== 0 ) {
+                sortedValues.push( nodes[ i ].value );
+            }
+        }
+        this._root = buildPersistentNode( sortedValues );
+    }
+
+    get allowDuplicates() { return this._allowDuplicates }
+    get comparator() { return this._comparator }
+    get isSameValue() { return this._isSameValue }
+    get isValueBefore() { return this._isValueBefore }
+    get key() { return this._key }
+    /** @readonly */
+    get root() { return this._root }
+    get size() { return persistentSizeOf( this._root ) }
+    get strictOrder() { return this._strictOrder }
+    /** in left-to-right in-order sequence */
+    get values() { return [ ...this ] }
+
+    *[ Symbol.iterator ]() : Generator<T> {
+        for( const { value } of this.genTraversal() ) { yield value }
+    }
+
+    compare( value : T, node : PersistentNode<T> ) : 0 | 1 | -1 {
+        if( this._comparator !== null ) { return signOf( this._comparator( value, node.value ) ) }
+        const key = this._key ?? ( ( value : T ) => value );
+        const isSame = this._isSameValue === Tree.DEFAULT
+            ? isSameDefaultFn( key( value ), key( node.value ) )
+            : this._isSameValue( value, node, this );
+        if( isSame ) { return 0 }
+        const isBefore = this._isValueBefore === Tree.DEFAULT
+            ? isBeforeDefaultFn( key( value ), key( node.value ), this._strictOrder )
+            : this._isValueBefore( value, node, this );
+        return isBefore ? -1 : 1;
+    }
+
+    /**
+     * Generates nodes in-order. `TraversalOrder.IN` is the only supported order.
+     * 
+     * @throws {Error} Invalid argument values
+     * @throws {TypeError} Invalid argument types
+     * @see TraversalOptions
+     */
+    *genTraversal( options : TraversalOptions = EMPTY_OBJ ) : Generator<PersistentNode<T>> {
+        const size = this.size;
+        const {
+            direction = TraversalDirection.RIGHT,
+            maxLength = size,
+            order = TraversalOrder.IN,
+            start = undefined
+        } = options ?? EMPTY_OBJ as TraversalOptions;
+        if( order !== TraversalOrder.IN ) {
+            throw new Error( 'Unsupported `order` option supplied to `genTraversal` method. Only `TraversalOrder.IN` is supported by the PersistentTree.' );
+        }
+        if( direction !== TraversalDirection.LEFT && direction !== TraversalDirection.RIGHT ) {
+            throw new Error( 'Invalid `direction` option supplied to `genTraversal` method. A member of `TraversalDirection` expected or leave it unset.' );
+        }
+        if( !isNumber( maxLength ) ) {
+            throw new TypeError( 'Invalid `maxLength` option supplied to `genTraversal` method. Integer expected or leave it unset.' );
+        }
+        if( typeof start !== 'undefined' && !isNumber( start ) ) {
+            throw new TypeError( 'Invalid `start node index` option supplied to `genTraversal` method. Integer expected or leave it unset.' );
+        }
+        let index = start < 0 ? size + start : start;
+        if( typeof index === 'undefined' || index < 0 || index >= size ) {
+            index = direction === TraversalDirection.RIGHT ? 0 : size - 1;
+        }
+        let remaining = maxLength;
+        for( const node of genPersistentInOrder(
+            this._root,
+            direction === TraversalDirection.RIGHT ? index : size - 1 - index,
+            direction
+        ) ) {
+            if( remaining-- <= 0 ) { return }
+            yield node;
+        }
+    }
+
+    /**
+     * Returns node located at index using a left-to-right in-order traversal
+     * @param {number} index - index can be negative index number to count from the end
+     */
+    getNodeAt( index : number ) : PersistentNode<T> {
+        return persistentNodeAt( this._root, index < 0 ? this.size + index : index );
+    }
+
+    /**
+     * Same as `tree.indexOf(...)`.
+     * @returns {number} index of the first node matching `value`. Returns -1 if none found.
+     */
+    indexOf(
+        value : T,
+        start : number = 0,
+        end : number = this.size - 1
+    ) : number {
+        const last = this.size - 1;
+        if( last === -1 || start > last ) { return -1 }
+        if( start < 0 ) {
+            start = last + start + 1;
+            if( start < 0 ) { start = 0 }
+        }
+        if( end > last ) {
+            end = last;
+        } else {
+            if( end < 0 ) { end = last + end + 1 }
+            if( end < start ) { end = start }
+        }
+        const index = Math.max( this._bisect( value ), start );
+        return index <= end && this.compare( value, persistentNodeAt( this._root, index ) ) === 0
+            ? index
+            : -1;
+    }
+
+    /** @returns {PersistentTree<T>} new version holding `value`. Returns this version if `value` is already present while `allowDuplicates` is unset. */
+    insert( value : T ) : PersistentTree<T> {
+        const index = this._bisect( value, true );
+        if( !this._allowDuplicates && index > 0 &&
+            this.compare( value, persistentNodeAt( this._root, index - 1 ) ) === 0
+        ) { return this }
+        return this._withRoot( insertPersistentAt( this._root, index, value ) );
+    }
+
+    /** @returns {PersistentTree<T>} new version without the first node matching `value`. Returns this version if none found. */
+    remove( value : T ) : PersistentTree<T> {
+        const index = this.indexOf( value );
+        return index === -1 ? this : this._withRoot( removePersistentAt( this._root, index ) );
+    }
+
+    /**
+     * Copies this version into a new mutable tree sharing its ordering options and `allowDuplicates` mode in linear time.
+     * Its custom criteria keep receiving a node of this version and this version itself: see `adaptPersistentCriterion(...)`.
+     */
+    toTree() : Tree<T> {
+        return Tree.fromJSON<T, T>({
+            allowDuplicates: this._allowDuplicates,
+            values: this.values
+        }, {
+            comparator: this._comparator,
+            isSameValue: adaptPersistentCriterion( this._isSameValue, this ),
+            isSorted: true,
+            isValueBefore: adaptPersistentCriterion( this._isValueBefore, this ),
+            key: this._key,
+            strictOrder: this._strictOrder
+        } );
+    }
+
+    private _bisect( value : T, isUpper : boolean = false ) : number {
+        let index = 0;
+        for( let node = this._root; node !== null; ) {
+            const comparison = this.compare( value, node );
+            if( comparison === 1 || ( isUpper && comparison === 0 ) ) {
+                index += persistentSizeOf( node.left ) + 1;
+                node = node.right;
+            } else {
+                node = node.left;
+            }
+        }
+        return index;
+    }
+
+    private _withRoot( root : PersistentNode<T> ) : PersistentTree<T> {
+        const tree = new PersistentTree<T>( undefined, {
+            allowDuplicates: this._allowDuplicates,
+            comparator: this._comparator,
+            isSameValue: this._isSameValue,
+            isValueBefore: this._isValueBefore,
+            key: this._key,
+            strictOrder: this._strictOrder
+        } );
+        tree._root = root;
+        return tree;
+    }
+}
+
+/**
+ * Read-only view of a tree frozen at the moment it was taken.
+ * Reads are served by the tree itself until the tree's next write, which first copies its values into this snapshot.
+ */
+export class TreeSnapshot<T = unknown> {
+
+    /** copy of the tree values as of this snapshot. Is null while the tree remains unchanged. */
+    private _copy : PersistentTree<T> = null;
+    private _tree : Tree<T>;
+
+    /**
+     * Same as `tree.snapshot()`.
+     * @throws {TypeError} For an invalid tree
+     */
+    constructor( tree : Tree<T> ) {
+        if( !Tree.isValid( tree ) ) {
+            throw new TypeError( 'Invalid `tree` argument supplied. Tree expected.' );
+        }
+        this._tree = tree;
+        tree[ TREE_TOKENS.registerSnapshot ]( this, ( copy : PersistentTree<T> ) => { this._copy = copy } );
+    }
+
+    /** is set while reads are still served by the tree: no write to the tree occurred since this snapshot */
+    get isShared() { return this._copy === null }
+    get size() { return this._copy === null ? this._tree.size : this._copy.size }
+    /** tree this snapshot was taken from */
+    get tree() { return this._tree }
+    /** in left-to-right in-order sequence */
+    get values() { return [ ...this ] }
+
+    /**
+     * Iterates over the snapshot values in left-to-right in-order sequence.
+     * An iteration underway continues from the copy once the tree is written to.
+     */
+    *[ Symbol.iterator ]() : Generator<T> {
+        let index = 0;
+        for( let node = this._copy === null ? this._tree.getNodeAt( 0 ) : null; node; ) {
+            yield node.value;
+            index++;
+            node = this._copy === null ? successorOf( node ) : null;
+        }
+        if( this._copy === null || index >= this._copy.size ) { return }
+        for( const { value } of this._copy.genTraversal({ start: index }) ) { yield value }
+    }
+
+    /** @returns {T} value at the left-to-right in-order `index` position. Accepts a negative index to count from the end. */
+    at( index : number ) : T {
+        return this._copy === null ? this._tree.at( index ) : this._copy.getNodeAt( index )?.value;
+    }
+
+    /** @returns {number} index of the first node matching `value`. Returns -1 if none found. */
+    indexOf( value : T ) : number {
+        return this._copy === null ? this._tree.indexOf( value ) : this._copy.indexOf( value );
+    }
+}
+
+/**
+ * Immutable criteria ordering values by one key and, on ties, by each subsequent key. See `Tree.by(...)`.
+ * Its `comparator`, `isSameValue` and `isValueBefore` criteria derive from a single three-way comparison and so always agree.
+ * May be supplied as tree options: `new Tree( values, Tree.by( v => v.id ) )`.
+ */
+export class Ordering<T = unknown> implements CriteriaOptions<T> {
+    readonly comparator : Comparator<T> = ( value, otherValue ) => {
+        for( const key of this._keys ) {
+            const comparison = compareOrderingKey( key, value, otherValue );
+            if( comparison !== 0 ) { return comparison }
+        }
+        return 0;
+    };
+    readonly isSameValue : Criterion<T> = ( value, node ) => this.comparator( value, node.value ) === 0;
+    readonly isValueBefore : Criterion<T> = ( value, node ) => this.comparator( value, node.value ) < 0;
+
+    private _keys : Array<OrderingKey<T>>;
+
+    /**
+     * Same as `Tree.by(...)`.
+     * @throws {TypeError} For an invalid argument.
+     */
+    constructor(
+        extract : ( value : T ) => unknown,
+        direction : SortDirection = 'asc',
+        collator : Intl.Collator = null
+    ) {
+        if( typeof extract !== 'function' ) {
+            throw new TypeError( 'Invalid `extract` argument supplied. Function expected.' );
+        }
+        if( direction !== 'asc' && direction !== 'desc' ) {
+            throw new TypeError( 'Invalid `direction` argument supplied. \'asc\' or \'desc\' expected.' );
+        }
+        collator = collator ?? null;
+        if( collator !== null && !( collator instanceof Intl.Collator ) ) {
+            throw new TypeError( 'Invalid `collator` argument supplied. Intl.Collator expected or leave it unset.' );
+        }
+        this._keys = [{ collator, direction, extract, isNullFirst: false }];
+    }
+
+    /** @returns {Ordering<T>} new ordering placing values with a null or undefined last key before all others. */
+    nullsFirst() : Ordering<T> { return this._withNullsFirst( true ) }
+
+    /** @returns {Ordering<T>} new ordering placing values with a null or undefined last key after all others. This is the default. */
+    nullsLast() : Ordering<T> { return this._withNullsFirst( false ) }
+
+    /**
+     * @returns {Ordering<T>} new ordering breaking ties of this ordering by the key `extract`ed from values.
+     * @throws {TypeError} For an invalid argument.
+     */
+    thenBy(
+        extract : ( value : T ) => unknown,
+        direction? : SortDirection,
+        collator? : Intl.Collator
+    ) : Ordering<T> {
+        const ordering = new Ordering<T>( extract, direction, collator );
+        ordering._keys = [ ...this._keys, ...ordering._keys ];
+        return ordering;
+    }
+
+    private _withNullsFirst( isNullFirst : boolean ) : Ordering<T> {
+        const key = this._keys[ this._keys.length - 1 ];
+        const ordering = new Ordering<T>( key.extract, key.direction, key.collator );
+        ordering._keys = [ ...this._keys.slice( 0, -1 ), { ...key, isNullFirst } ];
+        return ordering;
+    }
+}
+
+export class AutoBSTMap<K = unknown, V = unknown> {
+    private _tree : Tree<MapEntry<K, V>>;
+
+    /**
+     * Note: `options.isSameKey` config property uses `Object.is()` equality check out of the box, matching dates by time and arrays by elements
+     * 
+     * @throws {TypeError} for non-iterable entries or non-function key criteria
+     */
+    constructor(
+        entries : Iterable<[ K, V ]> = [],
+        options : MapOptions<K> = EMPTY_OBJ
+    ) {
+        const {
+            isKeyBefore = Tree.DEFAULT,
+            isSameKey = Tree.DEFAULT
+        } = options ?? ( EMPTY_OBJ as MapOptions<K> );
+        validateCriterion( isKeyBefore as KeyCriterion<K>, 'isKeyBefore' );
+        validateCriterion( isSameKey as KeyCriterion<K>, 'isSameKey' );
+        const _isKeyBefore = isKeyBefore === Tree.DEFAULT ? isBeforeDefaultFn : isKeyBefore;
+        const _isSameKey = isSameKey === Tree.DEFAULT ? isSameDefaultFn : isSameKey;
+        this._tree = new Tree<MapEntry<K, V>>( undefined, {
+            isSameValue: ({ key }, node ) => _isSameKey( key, node.value.key ),
+            isValueBefore: ({ key }, node ) => _isKeyBefore( key, node.value.key )
+        } );
+        for( const [ key, value ] of entries ?? [] ) { this.set( key, value ) }
+    }
+
+    get size() { return this._tree.size }
+
+    /**
+     * the underlying tree holding this map's entries in key order
+     * @readonly
+     */
+    get tree() { return this._tree }
+
+    [ Symbol.iterator ]() { return this.entries() }
+
+    clear() {
+        this._tree.clear();
+        return this;
+    }
+
+    /** @returns {boolean} true if an entry was found and removed */
+    delete( key : K ) : boolean {
+        const node = this._getNode( key );
+        if( !node ) { return false }
+        node.free();
+        return true;
+    }
+
+    /** Generates key/value pairs in key order */
+    *entries() : Generator<[ K, V ]> {
+        for( const { value: entry } of this._tree.genTraversal() ) {
+            yield [ entry.key, entry.value ];
+        }
+    }
+
+    get( key : K ) : V { return this._getNode( key )?.value.value }
+
+    has( key : K ) : boolean { return !!this._getNode( key ) }
+
+    /** Generates keys in order */
+    *keys() : Generator<K> {
+        for( const { value: entry } of this._tree.genTraversal() ) { yield entry.key }
+    }
+
+    /** Updating the value of an existing key does not rebalance the underlying tree. */
+    set( key : K, value : V ) {
+        const node = this._getNode( key );
+        if( node ) {
+            node.value.value = value;
+            return this;
+        }
+        this._tree.insert({ key, value });
+        return this;
+    }
+
+    /** Generates values in key order */
+    *values() : Generator<V> {
+        for( const { value: entry } of this._tree.genTraversal() ) { yield entry.value }
+    }
+
+    private _getNode( key : K ) : TreeNode<MapEntry<K, V>> {
+        const index = this._tree.indexOf({ key, value: undefined });
+        return index === -1 ? undefined : this._tree.getNodeAt( index );
+    }
+}
+
+/** rank of values of no default order. Such values follow all others. */
+const UNORDERED_TYPE_RANK = 5;
+
+/**
+ * Note: uses `Object.is()` except for dates matched by time, arrays matched element by element
+ * and numbers matched by bigints of the same size (e.g. `1` and `1n`).
+ */
+const isSameDefaultFn = <V>( value : V, otherValue : V ) : boolean => {
+    if( Object.is( value, otherValue ) ) { return true }
+    if( typeof value === 'bigint' ? isNumber( otherValue ) : typeof otherValue === 'bigint' && isNumber( value ) ) {
+        return value == otherValue;
+    }
+    if( value instanceof Date ) {
+        return otherValue instanceof Date && Object.is( value.getTime(), otherValue.getTime() );
+    }
+    return Array.isArray( value ) &&
+        Array.isArray( otherValue ) &&
+        value.length === otherValue.length &&
+        value.every(( v, i ) => isSameDefaultFn( v, otherValue[ i ] ) );
+}
+
+/**
+ * Checks if a value is less than the other value.
+ * Note: orders booleans, numbers and bigints, strings and dates by '<' and arrays lexicographically as tuples.
+ * Numbers and bigints share a type: they compare by size, also in strict mode. Values of differing types follow that type order. Values of any other type follow all others in no particular order.
+ * 
+ * @param {boolean} [isStrict] - throws rather than falling back on the type order
+ * @throws {TypeError} in strict mode, for values of differing or unorderable types
+ */
+const isBeforeDefaultFn = <V>( value : V, otherValue : V, isStrict = false ) : boolean => {
+    const rank = typeRankOf( value );
+    const otherRank = typeRankOf( otherValue );
+    if( rank !== otherRank || rank === UNORDERED_TYPE_RANK ) {
+        if( isStrict ) {
+            throw new TypeError( `Cannot order ${ typeNameOf( value ) } and ${ typeNameOf( otherValue ) } values under the default criteria.` );
+        }
+        return rank < otherRank;
+    }
+    if( !Array.isArray( value ) ) { return value < otherValue }
+    const other = otherValue as unknown as Array<unknown>;
+    for( let i = 0, len = Math.min( value.length, other.length ); i < len; i++ ) {
+        if( !isSameDefaultFn( value[ i ], other[ i ] ) ) { return isBeforeDefaultFn( value[ i ], other[ i ], isStrict ) }
+    }
+    return value.length < other.length;
+}
+
+const isSameValueDefaultFn : Criterion<unknown> = ( value, node ) => isSameDefaultFn( value, node.value );
+
+/** Checks if a value is less than the current node's value. */
+const isValueBeforeDefaultFn : Criterion<unknown> = ( value, node, tree ) => {
+    return isBeforeDefaultFn( value, node.value, tree?.strictOrder );
+}
+
+/**
+ * Null and undefined keys match one another and sort first or last whatever the key direction.
+ * Other keys compare by the key collator if any or else by the default order.
+ */
+function compareOrderingKey<T>(
+    { collator, direction, extract, isNullFirst } : OrderingKey<T>,
+    value : T,
+    otherValue : T
+) : number {
+    const key = extract( value );
+    const otherKey = extract( otherValue );
+    const isNull = key === null || key === undefined;
+    const isOtherNull = otherKey === null || otherKey === undefined;
+    if( isNull || isOtherNull ) {
+        if( isNull === isOtherNull ) { return 0 }
+        return isNull === isNullFirst ? -1 : 1;
+    }
+    let comparison : number;
+    if( collator !== null ) {
+        comparison = signOf( collator.compare( String( key ), String( otherKey ) ) );
+    } else {
+        comparison = isSameDefaultFn( key, otherKey ) ? 0 : isBeforeDefaultFn( key, otherKey ) ? -1 : 1;
+    }
+    return direction === 'desc' ? -comparison : comparison;
+}
+
+/**
+ * Joins two subtrees under a new node holding `value`, rotating as needed.
+ * Subtree heights may differ by up to 2: as following a single insertion or removal.
+ */
+function balancePersistentNode<T>(
+    value : T,
+    left : PersistentNode<T>,
+    right : PersistentNode<T>
+) : PersistentNode<T> {
+    const balance = persistentHeightOf( left ) - persistentHeightOf( right );
+    if( balance > 1 ) {
+        if( persistentHeightOf( left.left ) < persistentHeightOf( left.right ) ) {
+            left = makePersistentNode(
+                left.right.value,
+                makePersistentNode( left.value, left.left, left.right.left ),
+                left.right.right
+            );
+        }
+        return makePersistentNode( left.value, left.left, makePersistentNode( value, left.right, right ) );
+    }
+    if( balance < -1 ) {
+        if( persistentHeightOf( right.right ) < persistentHeightOf( right.left ) ) {
+            right = makePersistentNode(
+                right.left.value,
+                right.left.left,
+                makePersistentNode( right.value, right.left.right, right.right )
+            );
+        }
+        return makePersistentNode( right.value, makePersistentNode( value, left, right.left ), right.right );
+    }
+    return makePersistentNode( value, left, right );
+}
+
+/** @returns {PersistentNode<T>} root of a complete tree of sorted `values` */
+function buildPersistentNode<T>(
+    values : Array<T>,
+    start : number = 0,
+    end : number = values.length - 1
+) : PersistentNode<T> {
+    if( start > end ) { return null }
+    const mid = Math.floor( ( start + end ) / 2 );
+    return makePersistentNode(
+        values[ mid ],
+        buildPersistentNode( values, start, mid - 1 ),
+        buildPersistentNode( values, mid + 1, end )
+    );
+}
+
+/** Generates nodes from the `rank`th node counting from the `direction` start */
+function *genPersistentInOrder<T>(
+    root : PersistentNode<T>,
+    rank : number,
+    direction : TraversalDirection
+) : Generator<PersistentNode<T>> {
+    const [ near, far ] = direction === TraversalDirection.RIGHT
+        ? [ 'left', 'right' ] as const
+        : [ 'right', 'left' ] as const;
+    const stack : Array<PersistentNode<T>> = [];
+    for( let node = root; node !== null; ) {
+        const nearSize = persistentSizeOf( node[ near ] );
+        if( rank > nearSize ) {
+            rank -= nearSize + 1;
+            node = node[ far ];
+            continue;
+        }
+        stack.push( node );
+        if( rank === nearSize ) { break }
+        node = node[ near ];
+    }
+    while( stack.length ) {
+        const node = stack.pop();
+        yield node;
+        for( let next = node[ far ]; next !== null; next = next[ near ] ) { stack.push( next ) }
+    }
+}
+
+/** @returns {PersistentNode<T>} copy of the subtree rooted at `node` holding `value` at the in-order `index` */
+function insertPersistentAt<T>( node : PersistentNode<T>, index : number, value : T ) : PersistentNode<T> {
+    if( node === null ) { return makePersistentNode( value, null, null ) }
+    const leftSize = persistentSizeOf( node.left );
+    return index <= leftSize
+        ? balancePersistentNode( node.value, insertPersistentAt( node.left, index, value ), node.right )
+        : balancePersistentNode( node.value, node.left, insertPersistentAt( node.right, index - leftSize - 1, value ) );
+}
+
+function makePersistentNode<T>(
+    value : T,
+    left : PersistentNode<T>,
+    right : PersistentNode<T>
+) : PersistentNode<T> {
+    return Object.freeze({
+        height: Math.max( persistentHeightOf( left ), persistentHeightOf( right ) ) + 1,
+        left,
+        right,
+        size: persistentSizeOf( left ) + persistentSizeOf( right ) + 1,
+        value
+    });
+}
+
+function persistentHeightOf<T>( node : PersistentNode<T> ) : number { return node === null ? 0 : node.height }
+
+/** @returns {PersistentNode<T>} node at the in-order `index` of the subtree rooted at `node`. Returns `undefined` if out of range. */
+function persistentNodeAt<T>( node : PersistentNode<T>, index : number ) : PersistentNode<T> {
+    while( node !== null ) {
+        const leftSize = persistentSizeOf( node.left );
+        if( index === leftSize ) { return node }
+        if( index < leftSize ) {
+            node = node.left;
+        } else {
+            index -= leftSize + 1;
+            node = node.right;
+        }
+    }
+}
+
+function persistentSizeOf<T>( node : PersistentNode<T> ) : number { return node === null ? 0 : node.size }
+
+/** @returns {PersistentNode<T>} copy of the subtree rooted at `node` without the node at the in-order `index` */
+function removePersistentAt<T>( node : PersistentNode<T>, index : number ) : PersistentNode<T> {
+    const leftSize = persistentSizeOf( node.left );
+    if( index < leftSize ) {
+        return balancePersistentNode( node.value, removePersistentAt( node.left, index ), node.right );
+    }
+    if( index > leftSize ) {
+        return balancePersistentNode( node.value, node.left, removePersistentAt( node.right, index - leftSize - 1 ) );
+    }
+    if( node.left === null ) { return node.right }
+    if( node.right === null ) { return node.left }
+    return balancePersistentNode( persistentNodeAt( node.right, 0 ).value, node.left, removePersistentAt( node.right, 0 ) );
+}
+
+/** @returns tree criterion running a `tree` persistent criterion against a leaf stand-in node holding the compared value */
+function adaptPersistentCriterion<T>(
+    criterion : PersistentTreeOptions<T>["isSameValue"],
+    tree : PersistentTree<T>
+) : CriteriaOptions<T>["isSameValue"] {
+    if( criterion === Tree.DEFAULT ) { return criterion }
+    return ( value, node ) => criterion( value, makePersistentNode( node.value, null, null ), tree );
+}
+
+/** @returns persistent criterion running a `tree` criterion against an unlinked stand-in node of `tree` holding the compared value */
+function adaptTreeCriterion<T>(
+    criterion : CriteriaOptions<T>["isSameValue"],
+    tree : Tree<T>
+) : PersistentTreeOptions<T>["isSameValue"] {
+    if( criterion === Tree.DEFAULT ) { return criterion }
+    return ( value, node ) => criterion( value, new TreeNode( tree, node.value ), tree );
+}
+
+/** @returns {Array<number>} in-order indexes of the nodes linked under `root` in pre-order sequence */
+function collectPreOrderIndexes<T>( root : TreeNode<T> ) : Array<number> {
+    const indexes = [];
+    const stack : Array<[ TreeNode<T>, number ]> = root ? [[ root, 0 ]] : [];
+    while( stack.length ) {
+        const [ node, offset ] = stack.pop();
+        const index = offset + sizeOf( leftOf( node ) );
+        indexes.push( index );
+        rightOf( node ) && stack.push([ rightOf( node ), index + 1 ]);
+        leftOf( node ) && stack.push([ leftOf( node ), offset ]);
+    }
+    return indexes;
+}
+
+/**
+ * Links in-order sorted `nodes` into the height-balanced shape described by `shape`.
+ * @param shape - in-order indexes of `nodes` in pre-order sequence
+ * @returns {TreeNode<T>} the root node
+ * @throws {TypeError} when `shape` does not describe a height-balanced tree of `nodes`
+ */
+function linkPreOrder<T>( nodes : Array<TreeNode<T>>, shape : Array<number> ) : TreeNode<T> {
+    const maxHeight = Math.ceil( 1.45 * Math.log2( nodes.length + 2 ) );
+    let cursor = 0;
+    const link = ( start : number, end : number, height : number ) : TreeNode<T> => {
+        const index = shape[ cursor ];
+        if( !Number.isInteger( index ) || index < start || index >= end || height > maxHeight ) { return null }
+        cursor++;
+        const node = nodes[ index ];
+        node[ NODE_TOKENS.left ] = link( start, index, height + 1 );
+        node[ NODE_TOKENS.right ] = link( index + 1, end, height + 1 );
+        updateLinkMetrics( node );
+        if( Math.abs( heightOf( leftOf( node ) ) - heightOf( rightOf( node ) ) ) > 1 ) { cursor = NaN }
+        return node;
+    };
+    const root = Array.isArray( shape ) && shape.length === nodes.length ? link( 0, nodes.length, 1 ) : null;
+    if( cursor !== nodes.length ) {
+        throw new TypeError( 'Invalid tree JSON shape. In-order indexes of a height-balanced tree of the serialized values in pre-order sequence expected.' );
+    }
+    return root;
+}
+
+/** @throws {TypeError} for a value with no numeric representation. */
+function toQuantileNumber( value : unknown ) : number {
+    const n = typeof value === 'bigint' ? Number( value ) : +( value as number );
+    if( Number.isNaN( n ) ) {
+        throw new TypeError( 'Cannot interpolate non-numeric tree values. Use the "higher", "lower" or "nearest" interpolation instead.' );
+    }
+    return n;
+}
+
+/** records the current state of `node` with its tree's transaction underway if any. */
+function journalNodeStateOf<T>( node : TreeNode<T> ) {
+    node.tree?.[ TREE_TOKENS.journalNodeState ]( node );
+}
+
+/** runs `write` as a single history step of the tree of `node` if any. */
+function recordStepOf<T>( node : TreeNode<T>, write : () => void ) {
+    const tree = node.tree;
+    tree ? tree[ TREE_TOKENS.recordStep ]( write ) : write();
+}
+
+/** @returns {0|1|-1} sign of a comparator result. NaN counts as 0. */
+function signOf( comparison : number ) : 0 | 1 | -1 {
+    return comparison < 0 ? -1 : comparison > 0 ? 1 : 0;
+}
+
+/** @returns {number} position of the type of `value` in the default order: booleans, numbers and bigints, strings, dates, arrays then the rest. */
+function typeRankOf<V>( value : V ) : number {
+    if( isBoolean( value ) ) { return 0 }
+    if( isNumber( value ) || typeof value === 'bigint' ) { return 1 }
+    if( isString( value ) ) { return 2 }
+    if( value instanceof Date ) { return 3 }
+    if( Array.isArray( value ) ) { return 4 }
+    return UNORDERED_TYPE_RANK;
+}
+
+/** @returns {string} type name of `value` for error messages, e.g. 'Date' or 'Null'. */
+function typeNameOf<V>( value : V ) : string {
+    return Object.prototype.toString.call( value ).slice( 8, -1 );
+}
+
+/*
+ * The link helpers below read TreeNode fields directly rather than through
+ * the node's internal access tokens. They sit on every O(log n) descent.
+ */
+
+/** @returns {number} number of ancestors above a linked node */
+function depthOf<T>( node : TreeNode<T> ) : number {
+    let depth = 0;
+    for( let parent = rootOf( node ); parent !== null; parent = rootOf( parent ) ) { depth++ }
+    return depth;
+}
+
+function heightOf<T>( node : TreeNode<T> ) : number { return node === null ? 0 : node[ NODE_TOKENS.height ] }
+
+function leftOf<T>( node : TreeNode<T> ) : TreeNode<T> { return node[ NODE_TOKENS.left ] }
+
+/** @returns {TreeNode<T>} deepest common ancestor of two nodes linked into the same tree. Returns null if either node is unlinked. */
+function lowestCommonAncestorOf<T>( node : TreeNode<T>, otherNode : TreeNode<T> ) : TreeNode<T> {
+    if( !sizeOf( node ) || !sizeOf( otherNode ) ) { return null }
+    let depthDiff = depthOf( node ) - depthOf( otherNode );
+    for( ; depthDiff > 0; depthDiff-- ) { node = rootOf( node ) }
+    for( ; depthDiff < 0; depthDiff++ ) { otherNode = rootOf( otherNode ) }
+    while( node !== otherNode ) {
+        node = rootOf( node );
+        otherNode = rootOf( otherNode );
+    }
+    return node;
+}
+
+/** @returns {TreeNode<T>} the in-order predecessor of a linked node without triggering its tree's rotation */
+function predecessorOf<T>( node : TreeNode<T> ) : TreeNode<T> {
+    let next = leftOf( node );
+    if( next !== null ) {
+        while( rightOf( next ) !== null ) { next = rightOf( next ) }
+        return next;
+    }
+    for( next = rootOf( node ); next !== null && leftOf( next ) === node; next = rootOf( next ) ) { node = next }
+    return next;
+}
+
+/** @param [size] - 1 for a node about to be linked as a leaf. 0 for an unlinked node. */
+function resetLinks<T>( node : TreeNode<T>, size : number = 0 ) {
+    node[ NODE_TOKENS.left ] = null;
+    node[ NODE_TOKENS.right ] = null;
+    node[ NODE_TOKENS.root ] = null;
+    node[ NODE_TOKENS.height ] = size;
+    node[ NODE_TOKENS.size ] = size;
+}
+
+function rightOf<T>( node : TreeNode<T> ) : TreeNode<T> { return node[ NODE_TOKENS.right ] }
+
+function rootOf<T>( node : TreeNode<T> ) : TreeNode<T> { return node[ NODE_TOKENS.root ] }
+
+function sizeOf<T>( node : TreeNode<T> ) : number { return node === null ? 0 : node[ NODE_TOKENS.size ] }
+
+/** @returns {TreeNode<T>} the in-order successor of a linked node without triggering its tree's rotation */
+function successorOf<T>( node : TreeNode<T> ) : TreeNode<T> {
+    let next = rightOf( node );
+    if( next !== null ) {
+        while( leftOf( next ) !== null ) { next = leftOf( next ) }
+        return next;
+    }
+    for( next = rootOf( node ); next !== null && rightOf( next ) === node; next = rootOf( next ) ) { node = next }
+    return next;
+}
+
+/** recomputes the height and size of the subtree rooted at `node` from those of its children */
+function updateLinkMetrics<T>( node : TreeNode<T> ) {
+    const left = leftOf( node );
+    const right = rightOf( node );
+    node[ NODE_TOKENS.height ] = Math.max( heightOf( left ), heightOf( right ) ) + 1;
+    node[ NODE_TOKENS.size ] = sizeOf( left ) + sizeOf( right ) + 1;
 }
 
 /**
@@ -976,28 +3526,115 @@ function* genDescendantsFrom<T>(
     yield* genDescendantsFrom( node.right, nGenerations - 1, true );
 }
 
-function registerNodeInternalsFor<T>( node : TreeNode<T> ) {
-    const internals = {} as NodeInternalTokensMap;
-    internals_construct: {
-        const visited = {} as Array<string>;
-        let i = 0;
-        let done = false;
-        do {
-            for( const token of `${ Math.random() }`.slice( 2 ) ) {
-                if( token in visited ) { continue }
-                internals[ NODE_INTERNALS[ i ] ] = +token;
-                i++;
-                visited[ token ] = null;
-                if( i === NODE_INTERNALS.length ) {
-                    done = true;
-                    break;
+function createInternalTokens<K extends string>( names : ReadonlyArray<K> ) {
+    const internals = {} as { [ P in K ]: symbol };
+    for( const name of names ) { internals[ name ] = Symbol( name ) }
+    return internals;
+}
+
+/** defines the token-keyed internal accessors once on the node prototype rather than on every node instance */
+function defineNodeInternalsOn( proto : TreeNode ) {
+    const accessorOpts = { configurable: true, enumerable: false };
+    Object.defineProperties( proto, {
+        [ NODE_TOKENS.height ]: {
+            get() { return this._height },
+            set( height : number ) { this._height = height },
+            ...accessorOpts
+        },
+        [ NODE_TOKENS.index ]: {
+            set( index : number ) { this._index = index },
+            ...accessorOpts
+        },
+        [ NODE_TOKENS.isDetached ]: {
+            set( isDetached : boolean ) {
+                this._isDetached = isDetached;
+                this._transition = Transition.COMPLETE;
+                if( !isDetached || !this.tree ) { return this._stopTreeCleanupWatch() }
+                if( !this._unsubTreeCleanup ) {
+                    const node = this;
+                    this._unsubTreeCleanup = this.tree.onCleanup(() => node.free());
                 }
-            }
-        } while( !done );
-    }
-    return nodeAccessMap
-        .set( node, internals )
-        .get( node );
+            },
+            ...accessorOpts
+        },
+        /** is set while a detached node awaits its tree's cleanup to free itself */
+        [ NODE_TOKENS.isWatchingTree ]: {
+            get() { return this._unsubTreeCleanup !== null },
+            ...accessorOpts
+        },
+        [ NODE_TOKENS.left ]: {
+            get() { return this._left },
+            set( node : TreeNode = null ) {
+                this._left = node;
+                if( node ) { node[ NODE_TOKENS.root ] = this }
+            },
+            ...accessorOpts
+        },
+        [ NODE_TOKENS.right ]: {
+            get() { return this._right },
+            set( node : TreeNode = null ) {
+                this._right = node;
+                if( node ) { node[ NODE_TOKENS.root ] = this }
+            },
+            ...accessorOpts
+        },
+        [ NODE_TOKENS.root ]: {
+            get() { return this._root },
+            set( node : TreeNode = null ) {
+                if( node !== this._root ) { this._root = node }
+            },
+            ...accessorOpts
+        },
+        [ NODE_TOKENS.size ]: {
+            get() { return this._size },
+            set( size : number ) { this._size = size },
+            ...accessorOpts
+        },
+        [ NODE_TOKENS.tree ]: {
+            set( tree : Tree ) {
+                if( tree && this._unsubTreeCleanup && tree !== this.tree ) {
+                    const node = this;
+                    this._unsubTreeCleanup();
+                    this._unsubTreeCleanup = tree.onCleanup(() => node.free());
+                }
+                this._treeRef = tree ? new WeakRef( tree ) : null;
+            },
+            ...accessorOpts
+        },
+        [ NODE_TOKENS.value ]: {
+            set( value : unknown ) { this._value = value },
+            ...accessorOpts
+        }
+    });
+}
+
+/** defines the token-keyed internal methods which the other classes of this module call once on the tree prototype */
+function defineTreeInternalsOn( proto : Tree ) {
+    const methodOpts = { configurable: true, enumerable: false, writable: false };
+    Object.defineProperties( proto, {
+        [ TREE_TOKENS.freezeSnapshots ]: {
+            value() { return this._freezeSnapshots() },
+            ...methodOpts
+        },
+        [ TREE_TOKENS.journalNodeState ]: {
+            value( node : TreeNode ) { return this._journalNodeState( node ) },
+            ...methodOpts
+        },
+        [ TREE_TOKENS.publish ]: {
+            value( ...args : Array<unknown> ) { return this._publish( ...args ) },
+            ...methodOpts
+        },
+        [ TREE_TOKENS.recordStep ]: {
+            value( write : () => unknown ) { return this._recordStep( write ) },
+            ...methodOpts
+        },
+        [ TREE_TOKENS.registerSnapshot ]: {
+            value( snapshot : TreeSnapshot, setCopy : PendingSnapshot[ 'setCopy' ] ) {
+                return this._registerSnapshot( snapshot, setCopy );
+            },
+            ...methodOpts
+        }
+    });
 }
 
 /** @throws {TypeError} on invalid node type */
@@ -1007,6 +3644,23 @@ function throwOnInvalidNode<T>( node : TreeNode<T> ) {
     }
 }
 
+/**
+ * @throws {TypeError} on invalid `other` tree type
+ * @throws {Error} on `other` tree ordering its values by other criteria
+ */
+function throwOnCriteriaMismatch<T>( tree : Tree<T>, other : Tree<T> ) {
+    if( !Tree.isValid( other ) ) {
+        throw new TypeError( 'Invalid `other` argument supplied. Tree expected.' );
+    }
+    if( tree.comparator !== other.comparator ||
+        tree.isSameValue !== other.isSameValue ||
+        tree.isValueBefore !== other.isValueBefore ||
+        tree.key !== other.key
+    ) {
+        throw new Error( Tree.CRITERIA_MISMATCH_MESSAGE );
+    }
+}
+
 /** @throws {ReferenceError} on invalid node type */
 function throwOnNodeTreeMismatch<T>(
     currentTree : Tree<T>,
@@ -1017,6 +3671,8 @@ function throwOnNodeTreeMismatch<T>(
     }
 }
 
+function isBoolean<V>( v : V ){ return isType( v, 'boolean', Boolean ) }
+
 function isNumber<V>( v : V ){ return isType( v, 'number', Number ) }
 
 function isString<V>( v : V ){ return isType( v, 'string', String ) }
@@ -1034,7 +3690,15 @@ function isType<V>(
 }
 
 /** @throws {TypeError} */
+function validateCallback( cb : Function, methodName : string ) {
+    if( typeof cb !== 'function' ) {
+        throw new TypeError( `Invalid callback argument supplied to \`${ methodName }\` method. Function expected.` );
+    }
+}
+
 function validateCriterion<T>( criterion : Criterion<T>, criterionName : string ) : boolean;
+function validateCriterion<T>( criterion : PersistentCriterion<T>, criterionName : string ) : boolean;
+function validateCriterion<K>( criterion : KeyCriterion<K>, criterionName : string ) : boolean;
 function validateCriterion<T>( criterion : keyof CriteriaOptions<T>, criterionName : string ) : boolean;
 function validateCriterion<T>( criterion, criterionName ) : boolean {
     if( criterion !== Tree.DEFAULT && typeof criterion !== 'function' ) {
@@ -1043,4 +3707,26 @@ function validateCriterion<T>( criterion, criterionName ) : boolean {
     return true;
 }
 
+/**
+ * @returns {RebalancePolicy} the validated policy
+ * @throws {TypeError}
+ */
+function validateRebalancePolicy( policy : RebalancePolicy ) : RebalancePolicy {
+    switch( policy ) {
+        case 'immediate': case 'manual': case 'microtask': return policy;
+    }
+    if( policy !== null && typeof policy === 'object' ) {
+        const keys = Object.keys( policy );
+        if( keys.length === 1 ) {
+            const limit = policy[ keys[ 0 ] ];
+            switch( keys[ 0 ] ) {
+                case 'delay': if( limit >= 0 && limit < Infinity ) { return policy } break;
+                case 'heightFactor': if( limit >= 1 && limit < Infinity ) { return policy } break;
+                case 'mutations': if( Number.isInteger( limit ) && limit > 0 ) { return policy } break;
+            }
+        }
+    }
+    throw new TypeError( 'Invalid `rebalance` policy. Expected one of "immediate", "manual" or "microtask"; or a single-property object: `{ delay }` (non-negative milliseconds), `{ heightFactor }` (number >= 1) or `{ mutations }` (positive integer).' );
+}
+
 export default Tree;